@@ -0,0 +1,109 @@
+// Gemini requests made with the server's key. Failures throw errors made by proxyError, whose `kind` matches
+// the app's aiError kinds so the browser can show the same messages it shows for its own providers.
+
+const API_ROOT = 'https://generativelanguage.googleapis.com/v1beta/models';
+
+const BLOCKED_FINISH_REASONS = ['SAFETY', 'RECITATION', 'BLOCKLIST', 'PROHIBITED_CONTENT', 'SPII', 'IMAGE_SAFETY'];
+
+// `status` is the HTTP status the server answers with when the error happens before a reply has started
+export const proxyError = (kind, message, status = 502) => Object.assign(new Error(message), { kind, status });
+
+const safetyError = (reason) => proxyError('safety', `The AI provider blocked this request (${reason.toLowerCase().replace(/_/g, ' ')}). Try rephrasing it or using different material.`, 400);
+
+// Throws when the prompt or the answer was blocked; otherwise returns the text of the reply (or of a streamed chunk)
+const textOf = (data) => {
+  const candidate = data.candidates?.[0];
+  if (data.promptFeedback?.blockReason) throw safetyError(data.promptFeedback.blockReason);
+  if (BLOCKED_FINISH_REASONS.includes(candidate?.finishReason)) throw safetyError(candidate.finishReason);
+  return candidate?.content?.parts?.map(p => p.text || '').join('') || '';
+};
+
+// Thinking tokens are billed as output, so they are counted with it
+const usageOf = (data, model) => (data.usageMetadata ? {
+  inputTokens: data.usageMetadata.promptTokenCount || 0,
+  outputTokens: (data.usageMetadata.candidatesTokenCount || 0) + (data.usageMetadata.thoughtsTokenCount || 0),
+  model
+} : null);
+
+export const createGeminiClient = ({ apiKey, model }) => {
+  const request = async (method, { system, messages, file, json }, signal) => {
+    const contents = messages.map(m => ({ role: m.role === 'assistant' ? 'model' : 'user', parts: [{ text: m.content }] }));
+    if (file) contents[contents.length - 1].parts.push({ inlineData: { mimeType: file.mimeType, data: file.base64 } });
+
+    let response;
+    try {
+      // The key goes in a header rather than the URL so it can't end up in request logs
+      response = await fetch(`${API_ROOT}/${encodeURIComponent(model)}:${method}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'x-goog-api-key': apiKey },
+        body: JSON.stringify({
+          ...(system && { systemInstruction: { parts: [{ text: system }] } }),
+          contents,
+          ...(json && { generationConfig: { responseMimeType: 'application/json' } })
+        }),
+        signal
+      });
+    } catch (error) {
+      if (error.name === 'AbortError') throw error;
+      throw proxyError('network', "The QuizDeck server couldn't reach Google Gemini.");
+    }
+
+    if (!response.ok) {
+      const errorText = await response.text().catch(() => '');
+      // Gemini answers a bad key with 400 API_KEY_INVALID rather than 401
+      if (response.status === 401 || response.status === 403 || errorText.includes('API_KEY_INVALID')) {
+        console.error(`Gemini rejected the server's API key: ${response.status}`);
+        throw proxyError('auth', "The QuizDeck server's Gemini key was rejected. Ask whoever runs the server to check it.");
+      }
+      if (response.status === 429 || errorText.includes('RESOURCE_EXHAUSTED')) {
+        throw proxyError('quota', "The QuizDeck server's Gemini quota has been reached. Wait a minute and try again.", 429);
+      }
+      if (response.status === 400 && errorText.includes('MIME type')) {
+        throw proxyError('request', 'The AI model does not support this file type. Please convert to PDF or Image.', 400);
+      }
+      console.error(`Gemini error ${response.status}: ${errorText}`);
+      throw proxyError('request', `Gemini returned an error (${response.status}).`);
+    }
+    return response;
+  };
+
+  return {
+    // Resolves with { text, usage }; usage is { inputTokens, outputTokens, model } or null if Gemini didn't report it
+    complete: async (payload, signal) => {
+      const response = await request('generateContent', payload, signal);
+      const data = await response.json();
+      const text = textOf(data);
+      if (!text) throw proxyError('parse', 'AI could not process this request.');
+      return { text, usage: usageOf(data, model) };
+    },
+    // Calls onToken with each piece of the reply as it arrives and resolves with the usage of the whole reply
+    stream: async (payload, signal, onToken) => {
+      const response = await request('streamGenerateContent?alt=sse', payload, signal);
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+      let received = false;
+      let usage = null;
+      for (;;) {
+        const { done, value } = await reader.read();
+        buffer += decoder.decode(value, { stream: !done });
+        const lines = buffer.split('\n');
+        buffer = done ? '' : lines.pop();
+        for (const line of lines) {
+          const data = line.startsWith('data:') ? line.slice(5).trim() : '';
+          if (!data) continue;
+          const chunk = JSON.parse(data);
+          usage = usageOf(chunk, model) || usage;
+          const token = textOf(chunk);
+          if (token) {
+            received = true;
+            onToken(token);
+          }
+        }
+        if (done) break;
+      }
+      if (!received) throw proxyError('parse', 'AI could not process this request.');
+      return usage;
+    }
+  };
+};
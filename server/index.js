@@ -0,0 +1,224 @@
+// QuizDeck API proxy: holds the Gemini key so it never reaches the browser.
+//   POST /api/generate  { system, messages, file, json } -> { text, usage }
+//   POST /api/chat      { system, messages }             -> server-sent events: { text } per piece, { usage }, then [DONE]
+// where usage is { inputTokens, outputTokens, model }, so the app can keep its usage ledger.
+// Errors are answered as { error: { kind, message } }; a stream that fails after it started ends with a
+// `data: { error }` event instead. Also serves the built app from dist/ when it exists.
+import http from 'node:http';
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { createGeminiClient, proxyError } from './gemini.js';
+import { createRateLimiter } from './rateLimit.js';
+
+const MB = 1024 * 1024;
+
+const config = {
+  port: Number(process.env.PORT) || 8787,
+  apiKey: process.env.GEMINI_API_KEY || '',
+  model: process.env.GEMINI_MODEL || 'gemini-2.5-flash-preview-09-2025',
+  requestsPerMinute: Number(process.env.RATE_LIMIT_PER_MINUTE) || 20,
+  // Generation requests carry base64 PDFs and images; chat requests are only text
+  maxGenerateBytes: (Number(process.env.MAX_GENERATE_MB) || 20) * MB,
+  maxChatBytes: (Number(process.env.MAX_CHAT_KB) || 512) * 1024,
+  // Behind reverse proxies every request comes from the last proxy's address, so the client is read from X-Forwarded-For;
+  // this is how many proxies stand in front of the server
+  trustedProxies: Math.max(0, Math.floor(Number(process.env.TRUST_PROXY)) || 0),
+  // Set when the app is hosted on another origin than this server
+  allowedOrigin: process.env.ALLOWED_ORIGIN || ''
+};
+
+if (!config.apiKey) {
+  console.error('Set GEMINI_API_KEY to the Gemini API key the server should use.');
+  process.exit(1);
+}
+
+const MAX_MESSAGES = 50;
+const FILE_TYPES = ['application/pdf', 'image/png', 'image/jpeg', 'image/webp', 'image/heic', 'image/heif', 'image/gif'];
+
+const DIST_DIR = fileURLToPath(new URL('../dist/', import.meta.url));
+const CONTENT_TYPES = {
+  '.html': 'text/html; charset=utf-8',
+  '.js': 'text/javascript; charset=utf-8',
+  '.css': 'text/css; charset=utf-8',
+  '.json': 'application/json',
+  '.svg': 'image/svg+xml',
+  '.png': 'image/png',
+  '.ico': 'image/x-icon',
+  '.woff2': 'font/woff2',
+  '.woff': 'font/woff',
+  '.ttf': 'font/ttf'
+};
+
+const gemini = createGeminiClient({ apiKey: config.apiKey, model: config.model });
+const limiter = createRateLimiter({ limit: config.requestsPerMinute });
+setInterval(() => limiter.prune(), 5 * 60_000).unref();
+
+const isObject = (value) => typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Checks the shape of a request body and returns only the fields the Gemini client uses
+const validatePayload = (body, { allowFile }) => {
+  if (!isObject(body)) throw proxyError('request', 'The request body must be a JSON object.', 400);
+  const { system = '', messages, file = null, json = false } = body;
+  if (typeof system !== 'string') throw proxyError('request', '"system" must be a string.', 400);
+  const validMessages = Array.isArray(messages) && messages.length > 0 && messages.length <= MAX_MESSAGES &&
+    messages.every(m => isObject(m) && (m.role === 'user' || m.role === 'assistant') && typeof m.content === 'string');
+  if (!validMessages) {
+    throw proxyError('request', `"messages" must hold 1 to ${MAX_MESSAGES} { role: "user" | "assistant", content } objects.`, 400);
+  }
+  if (file !== null) {
+    if (!allowFile) throw proxyError('request', 'Files can only be sent to /api/generate.', 400);
+    if (!isObject(file) || typeof file.base64 !== 'string' || !FILE_TYPES.includes(file.mimeType)) {
+      throw proxyError('request', 'The AI model does not support this file type. Please convert to PDF or Image.', 400);
+    }
+  }
+  return { system, messages: messages.map(m => ({ role: m.role, content: m.content })), file, json: json === true };
+};
+
+// Resolves with the parsed JSON body, refusing bodies over `limit` bytes without reading the rest
+const readJSONBody = (req, limit) => new Promise((resolve, reject) => {
+  const tooLarge = () => proxyError('request', `This request is larger than the server allows (${limit >= MB ? `${Math.round(limit / MB)} MB` : `${Math.round(limit / 1024)} KB`}). Try fewer pages at a time.`, 413);
+  if (Number(req.headers['content-length']) > limit) {
+    reject(tooLarge());
+    return;
+  }
+  const chunks = [];
+  let size = 0;
+  req.on('data', (chunk) => {
+    size += chunk.length;
+    if (size > limit) {
+      req.removeAllListeners('data');
+      req.resume();
+      reject(tooLarge());
+      return;
+    }
+    chunks.push(chunk);
+  });
+  req.on('end', () => {
+    try {
+      resolve(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+    } catch {
+      reject(proxyError('request', 'The request body is not valid JSON.', 400));
+    }
+  });
+  req.on('error', reject);
+});
+
+// Each trusted proxy appends the address it was reached from, so the client is that many entries from the end.
+// Entries further left come from the client itself and could be made up to dodge the rate limit.
+const clientIdOf = (req) => {
+  const forwarded = String(req.headers['x-forwarded-for'] || '').split(',').map(entry => entry.trim());
+  const client = config.trustedProxies > 0 && forwarded.length >= config.trustedProxies && forwarded[forwarded.length - config.trustedProxies];
+  return client || req.socket.remoteAddress || 'unknown';
+};
+
+const sendJSON = (res, status, body, headers = {}) => {
+  res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+  res.end(JSON.stringify(body));
+};
+
+const sendError = (res, error, headers = {}) => {
+  const known = Boolean(error.kind);
+  if (!known) console.error(error);
+  sendJSON(res, known ? error.status : 500, {
+    error: { kind: known ? error.kind : 'request', message: known ? error.message : 'The QuizDeck server ran into a problem.' }
+  }, headers);
+};
+
+// Aborts the Gemini request when the browser goes away, e.g. when the user presses Stop
+const abortOnDisconnect = (res) => {
+  const controller = new AbortController();
+  res.on('close', () => {
+    if (!res.writableFinished) controller.abort();
+  });
+  return controller.signal;
+};
+
+const handleGenerate = async (req, res) => {
+  const payload = validatePayload(await readJSONBody(req, config.maxGenerateBytes), { allowFile: true });
+  sendJSON(res, 200, await gemini.complete(payload, abortOnDisconnect(res)));
+};
+
+const handleChat = async (req, res) => {
+  const payload = validatePayload(await readJSONBody(req, config.maxChatBytes), { allowFile: false });
+  const signal = abortOnDisconnect(res);
+  res.writeHead(200, { 'Content-Type': 'text/event-stream', 'Cache-Control': 'no-cache', Connection: 'keep-alive' });
+  const send = (data) => res.write(`data: ${JSON.stringify(data)}\n\n`);
+  try {
+    const usage = await gemini.stream(payload, signal, (text) => send({ text }));
+    if (usage) send({ usage });
+    res.write('data: [DONE]\n\n');
+  } catch (error) {
+    if (signal.aborted) return;
+    if (!error.kind) console.error(error);
+    send({ error: { kind: error.kind || 'request', message: error.kind ? error.message : 'The QuizDeck server ran into a problem.' } });
+  }
+  res.end();
+};
+
+const API_ROUTES = {
+  '/api/generate': handleGenerate,
+  '/api/chat': handleChat
+};
+
+// Serves files from dist/, falling back to index.html so the app's own routes load
+const serveApp = async (pathname, res) => {
+  let filePath = '';
+  try {
+    filePath = path.join(DIST_DIR, path.normalize(decodeURIComponent(pathname)));
+  } catch {
+    // A malformed %-escape can't name a file; fall back to the app
+  }
+  const inside = filePath.startsWith(DIST_DIR) && path.extname(filePath);
+  try {
+    const body = await readFile(inside ? filePath : path.join(DIST_DIR, 'index.html'));
+    res.writeHead(200, { 'Content-Type': CONTENT_TYPES[inside ? path.extname(filePath) : '.html'] || 'application/octet-stream' });
+    res.end(body);
+  } catch (error) {
+    if (inside && error.code === 'ENOENT') {
+      res.writeHead(404).end('Not found');
+      return;
+    }
+    res.writeHead(404, { 'Content-Type': 'text/plain; charset=utf-8' }).end('The app has not been built. Run `npm run build`, or use `npm run dev` during development.');
+  }
+};
+
+const server = http.createServer(async (req, res) => {
+  const { pathname } = new URL(req.url, 'http://localhost');
+  const cors = config.allowedOrigin ? {
+    'Access-Control-Allow-Origin': config.allowedOrigin,
+    'Access-Control-Allow-Methods': 'POST, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type'
+  } : {};
+  Object.entries(cors).forEach(([name, value]) => res.setHeader(name, value));
+
+  const handler = API_ROUTES[pathname];
+  if (!handler) {
+    if (pathname.startsWith('/api/')) return sendError(res, proxyError('request', 'Unknown API endpoint.', 404));
+    if (req.method !== 'GET' && req.method !== 'HEAD') return res.writeHead(405).end();
+    return serveApp(pathname, res);
+  }
+  if (req.method === 'OPTIONS') return res.writeHead(204).end();
+  if (req.method !== 'POST') return sendError(res, proxyError('request', 'Use POST for API requests.', 405), { Allow: 'POST' });
+
+  const { allowed, retryAfter } = limiter.take(clientIdOf(req));
+  if (!allowed) {
+    return sendError(res, proxyError('quota', `Too many AI requests from this device. Try again in ${retryAfter} seconds.`, 429), { 'Retry-After': String(retryAfter) });
+  }
+
+  try {
+    await handler(req, res);
+  } catch (error) {
+    if (error.name === 'AbortError') return;
+    if (res.headersSent) {
+      res.end();
+      return;
+    }
+    // Close the connection after refusing an oversized body so the client stops sending it
+    sendError(res, error, error.status === 413 ? { Connection: 'close' } : {});
+  }
+});
+
+server.listen(config.port, () => {
+  console.log(`QuizDeck server listening on http://localhost:${config.port} (model ${config.model}, ${config.requestsPerMinute} AI requests per minute per client)`);
+});
@@ -0,0 +1,25 @@
+// Sliding-window limiter: each client may make `limit` requests in any `windowMs` period
+export const createRateLimiter = ({ limit, windowMs = 60_000 }) => {
+  const hits = new Map(); // client id -> timestamps of its requests inside the window
+
+  // Records a request if the client is under its limit; otherwise says how many seconds until it can try again
+  const take = (clientId, now = Date.now()) => {
+    const recent = (hits.get(clientId) || []).filter(time => now - time < windowMs);
+    if (recent.length >= limit) {
+      hits.set(clientId, recent);
+      return { allowed: false, retryAfter: Math.ceil((recent[0] + windowMs - now) / 1000) };
+    }
+    recent.push(now);
+    hits.set(clientId, recent);
+    return { allowed: true, retryAfter: 0 };
+  };
+
+  // Forgets clients with no requests left in the window so the map doesn't grow forever
+  const prune = (now = Date.now()) => {
+    hits.forEach((times, clientId) => {
+      if (times.every(time => now - time >= windowMs)) hits.delete(clientId);
+    });
+  };
+
+  return { take, prune };
+};
@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useMemo, useRef } from 'react';
+import React, { useState, useEffect, useMemo, useRef, useCallback, useDeferredValue } from 'react';
 import { 
   Plus, 
   Search, 
@@ -20,38 +20,449 @@ import {
   Sparkles,
   Bot,
   Send,
-  FileText,
   Loader2,
   MessageCircle,
   Upload,
-  Image as ImageIcon,
   Moon,
   Sun,
   File as FileIcon,
+  FileText,
+  PenLine,
+  Download,
+  ClipboardList,
+  Folder,
+  FolderPlus,
+  Tag,
+  Star,
+  Flame,
+  Clock,
+  Target,
+  History,
+  ChartColumn,
+  Bold,
+  Italic,
+  Code,
+  List,
+  Sigma,
+  SquareFunction,
+  ImagePlus,
+  Eye,
+  Volume2,
+  VolumeX,
   Key,
-  AlertCircle
+  AlertCircle,
+  Square
 } from 'lucide-react';
+import ReactMarkdown from 'react-markdown';
+import remarkMath from 'remark-math';
+import rehypeKatex from 'rehype-katex';
+import 'katex/dist/katex.min.css';
+import { unzipSync, strFromU8 } from 'fflate';
 
 // --- Tailwind CSS is assumed to be available ---
 
 /**
  * API UTILITIES
+ * AI requests go through a provider chosen in Settings. A provider implements:
+ *   complete({ system, messages, file, json, signal, onUsage }): Promise<string>
+ *   stream({ system, messages, signal, onToken, onUsage }): Promise<string>
+ * where `messages` is [{ role: 'user' | 'assistant', content }], `file` is an optional { base64, mimeType }
+ * attachment for the last user message and `json` asks for a JSON-only reply. `stream` calls `onToken`
+ * with each piece of the reply as it arrives and resolves with the whole text; aborting `signal` stops it.
+ * Providers that report token counts pass { inputTokens, outputTokens, model? } to `onUsage`.
+ * Failed requests throw errors made by aiError, whose `kind` says what went wrong.
+ * getAIProvider checks every request against the AI budget and records it in the usage ledger (see AI USAGE).
  */
 const apiKey = import.meta.env.VITE_GEMINI_KEY ||"";
+// Where the bundled server (server/index.js) runs when it holds the key instead; '/' for the app's own origin
+const proxyUrl = import.meta.env.VITE_AI_PROXY_URL || "";
+
+const AI_SETTINGS_KEY = 'quizdeck_ai_settings';
+
+// Budgets are US$ amounts as typed in Settings ('' for none); budgetMode is 'warn' or 'block'
+const DEFAULT_AI_SETTINGS = { provider: proxyUrl ? 'proxy' : 'gemini', model: '', baseUrl: '', openaiApiKey: '', dailyBudget: '', monthlyBudget: '', budgetMode: 'warn' };
+
+const getAISettings = () => {
+  try {
+    return { ...DEFAULT_AI_SETTINGS, ...JSON.parse(localStorage.getItem(AI_SETTINGS_KEY)) };
+  } catch {
+    return DEFAULT_AI_SETTINGS;
+  }
+};
 
-const getEffectiveApiKey = () => {
+const saveAISettings = (settings) => {
+  localStorage.setItem(AI_SETTINGS_KEY, JSON.stringify(settings));
+};
+
+// The key for the selected provider; the Gemini key keeps its original storage slot
+const getEffectiveApiKey = (settings = getAISettings()) => {
+  if (settings.provider === 'openai') return settings.openaiApiKey;
+  if (settings.provider === 'proxy') return ''; // the server adds its own
   return localStorage.getItem('quizdeck_api_key') || apiKey;
 };
 
-const generateFlashcardsAI = async (text, fileBase64 = null, mimeType = null) => {
-  const key = getEffectiveApiKey();
-  if (!key) {
-    throw new Error("API Key is missing. Please add your Google Gemini API Key in the Settings (gear icon).");
+const readErrorText = async (response) => {
+  try {
+    return await response.text();
+  } catch {
+    return '';
   }
+};
 
-  try {
-    const parts = [{
-      text: `You are an expert teacher. Analyze the ${fileBase64 ? "document/image" : "text"} provided and create a study set of flashcards. 
+const isAbortError = (error) => error?.name === 'AbortError';
+
+// kind: 'auth' (missing or rejected key), 'quota' (rate limit or spending cap), 'safety' (blocked by the provider),
+// 'parse' (a reply that can't be used), 'budget' (over the user's own AI budget), 'network' or 'request' (anything else the provider refused)
+const aiError = (kind, message) => Object.assign(new Error(message), { kind });
+
+const INVALID_KEY_MESSAGE = "Invalid API Key. Please check your key in Settings.";
+const QUOTA_MESSAGE = "The AI provider's rate limit or quota has been reached. Wait a minute and try again, or check your plan with the provider.";
+
+const AI_ERROR_TITLES = {
+  auth: 'API key problem',
+  quota: 'Rate limit or quota reached',
+  safety: 'Blocked by the AI provider',
+  parse: "Couldn't read the AI's reply",
+  network: 'Connection problem',
+  budget: 'AI budget reached'
+};
+
+const formatAIError = (error) => (AI_ERROR_TITLES[error.kind] ? `${AI_ERROR_TITLES[error.kind]}: ${error.message}` : error.message);
+
+const safetyError = (reason) => aiError('safety', `The AI provider blocked this request (${reason.toLowerCase().replace(/_/g, ' ')}). Try rephrasing it or using different material.`);
+
+// Passes the payload of every `data:` line of a server-sent event stream to onData
+const readServerSentEvents = async (response, onData) => {
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  for (;;) {
+    const { done, value } = await reader.read();
+    buffer += decoder.decode(value, { stream: !done });
+    const lines = buffer.split('\n');
+    buffer = done ? '' : lines.pop();
+    lines.forEach(line => {
+      const data = line.startsWith('data:') ? line.slice(5).trim() : '';
+      if (data && data !== '[DONE]') onData(JSON.parse(data));
+    });
+    if (done) return;
+  }
+};
+
+const GEMINI_BLOCKED_FINISH_REASONS = ['SAFETY', 'RECITATION', 'BLOCKLIST', 'PROHIBITED_CONTENT', 'SPII', 'IMAGE_SAFETY'];
+
+// Thinking tokens are billed as output, so they are counted with it
+const geminiUsage = (metadata) => metadata && {
+  inputTokens: metadata.promptTokenCount || 0,
+  outputTokens: (metadata.candidatesTokenCount || 0) + (metadata.thoughtsTokenCount || 0)
+};
+
+const createGeminiProvider = ({ apiKey: key, model }) => {
+  const request = async (method, { system, messages, file = null, json = false, signal }) => {
+    if (!key) {
+      throw aiError('auth', "API Key is missing. Please add your Google Gemini API Key in the Settings (gear icon).");
+    }
+    const contents = messages.map(m => ({ role: m.role === 'assistant' ? 'model' : 'user', parts: [{ text: m.content }] }));
+    if (file) contents[contents.length - 1].parts.push({ inlineData: { mimeType: file.mimeType, data: file.base64 } });
+
+    let response;
+    try {
+      response = await fetch(
+        `https://generativelanguage.googleapis.com/v1beta/models/${encodeURIComponent(model)}:${method}`,
+        {
+          method: 'POST',
+          // In a header rather than the URL, so the key stays out of browser history and request logs
+          headers: { 'Content-Type': 'application/json', 'x-goog-api-key': key },
+          body: JSON.stringify({
+            ...(system && { systemInstruction: { parts: [{ text: system }] } }),
+            contents,
+            ...(json && { generationConfig: { responseMimeType: "application/json" } })
+          }),
+          signal
+        }
+      );
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      throw aiError('network', "Couldn't reach Google Gemini. Check your internet connection.");
+    }
+
+    if (!response.ok) {
+      const errorText = await readErrorText(response);
+      // Gemini answers a bad key with 400 API_KEY_INVALID rather than 401
+      if (response.status === 401 || response.status === 403 || errorText.includes('API_KEY_INVALID')) {
+         throw aiError('auth', INVALID_KEY_MESSAGE);
+      }
+      if (response.status === 429 || errorText.includes('RESOURCE_EXHAUSTED')) {
+         throw aiError('quota', QUOTA_MESSAGE);
+      }
+      if (response.status === 400 && errorText.includes("MIME type")) {
+         throw aiError('request', "The AI model does not support this file type. Please convert to PDF or Image.");
+      }
+      throw aiError('request', `API Error: ${response.status} - ${errorText}`);
+    }
+    return response;
+  };
+  // Throws when the prompt or the answer was blocked; otherwise returns the text of the reply (or of a streamed chunk)
+  const textOf = (data) => {
+    const candidate = data.candidates?.[0];
+    if (data.promptFeedback?.blockReason) throw safetyError(data.promptFeedback.blockReason);
+    if (GEMINI_BLOCKED_FINISH_REASONS.includes(candidate?.finishReason)) throw safetyError(candidate.finishReason);
+    return candidate?.content?.parts?.map(p => p.text || '').join('') || '';
+  };
+
+  return {
+    complete: async ({ onUsage = () => {}, ...options }) => {
+      const response = await request('generateContent', options);
+      const data = await response.json();
+      if (data.usageMetadata) onUsage(geminiUsage(data.usageMetadata));
+      const text = textOf(data);
+      if (!text) throw aiError('parse', "AI could not process this request.");
+      return text;
+    },
+    stream: async ({ onToken, onUsage = () => {}, ...options }) => {
+      const response = await request('streamGenerateContent?alt=sse', options);
+      let text = '';
+      await readServerSentEvents(response, (data) => {
+        // Each chunk carries the running totals
+        if (data.usageMetadata) onUsage(geminiUsage(data.usageMetadata));
+        const token = textOf(data);
+        text += token;
+        if (token) onToken(token);
+      });
+      if (!text) throw aiError('parse', "AI could not process this request.");
+      return text;
+    }
+  };
+};
+
+// Works with OpenAI and with local servers that expose the same API (Ollama, llama.cpp, LM Studio, vLLM)
+const createOpenAICompatibleProvider = ({ apiKey: key, model, baseUrl }) => {
+  const request = async ({ system, messages, file = null, json = false, signal }, stream = false) => {
+    if (file && !file.mimeType.startsWith('image/')) {
+      throw aiError('request', "This provider can only read images. Paste the document's text instead, or switch to Gemini in Settings.");
+    }
+    const chatMessages = messages.map(m => ({ role: m.role, content: m.content }));
+    if (file) {
+      const last = chatMessages[chatMessages.length - 1];
+      last.content = [
+        { type: 'text', text: last.content },
+        { type: 'image_url', image_url: { url: `data:${file.mimeType};base64,${file.base64}` } }
+      ];
+    }
+
+    let response;
+    try {
+      response = await fetch(`${baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', ...(key && { Authorization: `Bearer ${key}` }) },
+        body: JSON.stringify({
+          model,
+          messages: system ? [{ role: 'system', content: system }, ...chatMessages] : chatMessages,
+          ...(json && { response_format: { type: 'json_object' } }),
+          ...(stream && { stream: true, stream_options: { include_usage: true } })
+        }),
+        signal
+      });
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      throw aiError('network', `Couldn't reach ${baseUrl}. Check the base URL in Settings and that the server is running.`);
+    }
+
+    if (!response.ok) {
+      const errorText = await readErrorText(response);
+      if (response.status === 401 || response.status === 403) {
+        throw aiError('auth', INVALID_KEY_MESSAGE);
+      }
+      if (response.status === 429) {
+        throw aiError('quota', QUOTA_MESSAGE);
+      }
+      if (errorText.includes('content_policy') || errorText.includes('content_filter')) {
+        throw safetyError('content policy');
+      }
+      throw aiError('request', `API Error: ${response.status} - ${errorText}`);
+    }
+    return response;
+  };
+  const checkFinish = (choice) => {
+    if (choice?.finish_reason === 'content_filter') throw safetyError('content filter');
+  };
+  const reportUsage = (usage, onUsage) => {
+    if (usage) onUsage({ inputTokens: usage.prompt_tokens || 0, outputTokens: usage.completion_tokens || 0 });
+  };
+
+  return {
+    complete: async ({ onUsage = () => {}, ...options }) => {
+      const data = await (await request(options)).json();
+      reportUsage(data.usage, onUsage);
+      checkFinish(data.choices?.[0]);
+      const text = data.choices?.[0]?.message?.content;
+      if (!text) throw aiError('parse', "AI could not process this request.");
+      return text;
+    },
+    stream: async ({ onToken, onUsage = () => {}, ...options }) => {
+      const response = await request(options, true);
+      let text = '';
+      await readServerSentEvents(response, (data) => {
+        // The usage arrives in a last chunk without choices
+        reportUsage(data.usage, onUsage);
+        checkFinish(data.choices?.[0]);
+        const token = data.choices?.[0]?.delta?.content || '';
+        text += token;
+        if (token) onToken(token);
+      });
+      if (!text) throw aiError('parse', "AI could not process this request.");
+      return text;
+    }
+  };
+};
+
+// Sends requests to the QuizDeck server, which adds its own Gemini key and enforces per-client rate and size limits
+const createProxyProvider = ({ baseUrl }) => {
+  const root = baseUrl.replace(/\/+$/, '');
+  const request = async (path, { system, messages, file = null, json = false, signal }) => {
+    let response;
+    try {
+      response = await fetch(`${root}${path}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ system, messages, file, json }),
+        signal
+      });
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      throw aiError('network', `Couldn't reach the QuizDeck server${root ? ` at ${root}` : ''}. Check that it is running.`);
+    }
+
+    if (!response.ok) {
+      const errorText = await readErrorText(response);
+      let error = null;
+      try {
+        error = JSON.parse(errorText).error;
+      } catch {
+        // Not one of the server's own errors, e.g. a reverse proxy's error page
+      }
+      if (error?.kind) throw aiError(error.kind, error.message);
+      if (response.status === 413) throw aiError('request', "This request is larger than the server allows. Try fewer pages at a time.");
+      if (response.status === 429) throw aiError('quota', QUOTA_MESSAGE);
+      throw aiError('request', `Server Error: ${response.status}`);
+    }
+    return response;
+  };
+
+  return {
+    complete: async ({ onUsage = () => {}, ...options }) => {
+      const { text, usage } = await (await request('/api/generate', options)).json();
+      if (usage) onUsage(usage);
+      if (!text) throw aiError('parse', "AI could not process this request.");
+      return text;
+    },
+    stream: async ({ onToken, onUsage = () => {}, ...options }) => {
+      const response = await request('/api/chat', options);
+      let text = '';
+      await readServerSentEvents(response, (data) => {
+        if (data.error) throw aiError(data.error.kind, data.error.message);
+        if (data.usage) return onUsage(data.usage);
+        text += data.text;
+        onToken(data.text);
+      });
+      if (!text) throw aiError('parse', "AI could not process this request.");
+      return text;
+    }
+  };
+};
+
+// Answers instantly and always the same way for the same input; for tests and trying the app offline
+const createMockProvider = () => {
+  const lastPrompt = (messages) => [...messages].reverse().find(m => m.role === 'user')?.content || '';
+  const chatReply = (messages) => {
+    const earlier = messages.filter(m => m.role === 'user').length - 1;
+    const quiz = /\bquiz\b/i.test(lastPrompt(messages)) ? `\n\n\`\`\`${TUTOR_ACTION_FENCE}\n{"type": "quiz", "count": ${CHAT_QUIZ_LENGTH}}\n\`\`\`` : '';
+    return `(Mock tutor) You asked: "${lastPrompt(messages).trim()}".${earlier > 0 ? ` I can see ${earlier} earlier question${earlier === 1 ? '' : 's'} in this chat.` : ''} Connect a real AI provider in Settings for proper answers.${quiz}`;
+  };
+
+  return {
+    complete: async ({ messages, file = null, json = false }) => {
+      const prompt = lastPrompt(messages);
+      if (!json) return chatReply(messages);
+      // "term - definition" / "term: definition" lines become cards; otherwise each sentence does
+      const pairs = prompt.split('\n')
+        .map(line => line.match(/^\s*(.+?)\s+[-–:]\s+(.+)$/) || line.match(/^\s*([^:]+):\s*(.+)$/))
+        .filter(Boolean)
+        .map(([, term, def]) => ({ term: term.trim(), def: def.trim() }));
+      const sentences = prompt.split(/(?<=[.!?])\s+/).map(s => s.trim()).filter(s => s.split(/\s+/).length > 3);
+      const cards = pairs.length >= 2 ? pairs : sentences.length >= 2
+        ? sentences.map(sentence => ({ term: sentence.split(/\s+/).slice(0, 3).join(' '), def: sentence }))
+        : [1, 2, 3].map(n => ({ term: `Sample term ${n}`, def: `Sample definition ${n}${file ? ` from ${file.mimeType}` : ''}` }));
+      return JSON.stringify({
+        title: prompt.trim() ? `Mock set: ${prompt.trim().split(/\s+/).slice(0, 4).join(' ')}` : 'Mock set',
+        description: 'Generated by the mock AI provider.',
+        cards
+      });
+    },
+    // Sends the reply a word at a time so the streaming UI can be tried offline
+    stream: async ({ messages, signal, onToken }) => {
+      const tokens = chatReply(messages).match(/\S+\s*/g);
+      for (const token of tokens) {
+        await new Promise(resolve => setTimeout(resolve, 30));
+        if (signal?.aborted) throw new DOMException('The request was stopped.', 'AbortError');
+        onToken(token);
+      }
+      return tokens.join('');
+    }
+  };
+};
+
+const AI_PROVIDERS = [
+  { id: 'gemini', label: 'Google Gemini', defaultModel: 'gemini-2.5-flash-preview-09-2025', create: createGeminiProvider },
+  { id: 'openai', label: 'OpenAI-compatible (incl. Ollama, llama.cpp)', defaultModel: 'gpt-4o-mini', defaultBaseUrl: 'https://api.openai.com/v1', create: createOpenAICompatibleProvider },
+  { id: 'proxy', label: 'QuizDeck server (shared key)', defaultModel: '', defaultBaseUrl: proxyUrl, create: createProxyProvider },
+  { id: 'mock', label: 'Mock (offline, for testing)', defaultModel: 'mock', create: createMockProvider }
+];
+
+// The name requests are recorded under in the usage ledger; the QuizDeck server reports its own model
+const getAIModelName = (settings = getAISettings()) => {
+  const provider = AI_PROVIDERS.find(p => p.id === settings.provider) || AI_PROVIDERS[0];
+  return settings.model.trim() || provider.defaultModel || provider.label;
+};
+
+// Requests that fail with these never reached the model, so they aren't recorded. Requests the user stopped aren't
+// recorded either unless the provider already reported their usage.
+const UNBILLED_AI_ERRORS = ['auth', 'quota', 'network', 'budget'];
+
+const getAIProvider = (settings = getAISettings()) => {
+  const provider = AI_PROVIDERS.find(p => p.id === settings.provider) || AI_PROVIDERS[0];
+  const client = provider.create({
+    apiKey: getEffectiveApiKey(settings),
+    model: settings.model.trim() || provider.defaultModel,
+    baseUrl: settings.baseUrl.trim() || provider.defaultBaseUrl
+  });
+  const tracked = (method) => async (options) => {
+    checkAIBudget(settings);
+    let usage = null;
+    const record = () => recordAIUsage(usage?.model || getAIModelName(settings), usage);
+    try {
+      const reply = await client[method]({ ...options, onUsage: (reported) => { usage = reported; } });
+      record();
+      return reply;
+    } catch (error) {
+      if (usage || !(isAbortError(error) || UNBILLED_AI_ERRORS.includes(error.kind))) record();
+      throw error;
+    }
+  };
+  return { complete: tracked('complete'), stream: tracked('stream') };
+};
+
+// `count` asks for that many cards, `avoid` lists terms not to repeat and `replace` asks for one better card in place of another.
+// `fresh` skips the generation cache; the new result then replaces the cached one.
+// Unusable replies are retried with a note telling the model what was wrong, up to AI_MAX_ATTEMPTS requests in all.
+const generateFlashcardsAI = async (text, fileBase64 = null, mimeType = null, { count = null, avoid = [], replace = null, fresh = false, signal } = {}) => {
+  const amount = replace
+    ? `Create exactly one card covering the same concept as "${replace.term}: ${replace.def}", but more accurate and clearer.`
+    : count ? `Create exactly ${count} cards.` : 'Create at least 5-10 cards if the content allows.';
+  const settings = getAISettings();
+  const provider = getAIProvider(settings);
+  const request = {
+    system: `You are an expert teacher. Analyze the ${fileBase64 ? "document/image" : "text"} provided and create a study set of flashcards. 
               
               Instructions:
               1. If a document is provided, extract the key concepts, definitions, and terms from it.
@@ -64,990 +475,5180 @@ const generateFlashcardsAI = async (text, fileBase64 = null, mimeType = null) =>
                   {"term": "Key Term", "def": "Clear, concise definition"}
                 ]
               }
-              Create at least 5-10 cards if the content allows.
-              
-              ${text ? `Additional User Instructions:\n${text}` : ''}`
-    }];
-
-    if (fileBase64) {
-      parts.push({
-        inlineData: {
-          mimeType: mimeType,
-          data: fileBase64
-        }
-      });
-    }
+              ${amount}${avoid.length > 0 ? `
+              Do not repeat any of these existing terms: ${avoid.join('; ')}.` : ''}
+              The user's message contains the text to study or additional instructions.`,
+    messages: [{ role: 'user', content: text || 'Create flashcards from the attached file.' }],
+    file: fileBase64 ? { base64: fileBase64, mimeType } : null,
+    json: true,
+    signal
+  };
 
-    const response = await fetch(
-      `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.5-flash-preview-09-2025:generateContent?key=${key}`,
-      {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          contents: [{ parts }],
-          generationConfig: {
-            responseMimeType: "application/json"
-          }
-        })
-      }
-    );
+  // A replacement is asked for because the last answer wasn't good enough, so it never comes from the cache
+  const cacheKey = replace ? null : hashText(JSON.stringify([settings.provider, getAIModelName(settings), settings.baseUrl, request.system, request.messages, request.file]));
+  const cached = cacheKey && !fresh && getCachedGeneration(cacheKey);
+  if (cached) {
+    recordAIUsage(getAIModelName(settings), null, { cached: true });
+    return cached;
+  }
 
-    if (!response.ok) {
-      const errorText = await response.text();
-      if (response.status === 401) {
-         throw new Error("Invalid API Key. Please check your key in Settings.");
+  let messages = request.messages;
+  for (let attempt = 1; ; attempt++) {
+    let content = '';
+    try {
+      content = await provider.complete({ ...request, messages });
+      const result = parseGeneratedSet(content);
+      if (cacheKey) cacheGeneration(cacheKey, result);
+      return result;
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      if (error.kind === 'parse' && attempt < AI_MAX_ATTEMPTS) {
+        messages = [
+          ...request.messages,
+          ...(content ? [{ role: 'assistant', content: content.slice(0, 4000) }] : []),
+          { role: 'user', content: `Your reply couldn't be used: ${error.message} Reply again with only the JSON object in the structure described, and give every card both a "term" and a "def".` }
+        ];
+        continue;
       }
-      if (response.status === 400 && errorText.includes("MIME type")) {
-         throw new Error("The AI model does not support this file type. Please convert to PDF or Image.");
+      if (error.kind === 'budget') throw error;
+      console.error("AI Generation Error:", error);
+      if (error.kind === 'parse') {
+        throw aiError('parse', `The AI's reply couldn't be turned into flashcards after ${attempt} attempts (${error.message}) Try again, or use shorter source material.`);
       }
-      throw new Error(`API Error: ${response.status} - ${errorText}`);
+      throw aiError(error.kind || 'request', error.message || "Failed to generate flashcards.");
     }
+  }
+};
 
-    const data = await response.json();
-    if (!data.candidates || !data.candidates[0]) throw new Error("AI could not process this file.");
-    
-    let content = data.candidates[0].content.parts[0].text;
-    
-    // Sanitize: Remove markdown code blocks if present
-    content = content.replace(/```json/g, '').replace(/```/g, '').trim();
+// Cards per distractor request, so long sets don't hit output limits
+const DISTRACTOR_BATCH = 20;
+
+// Writes wrong answer options for `cards` (see ANSWER OPTIONS), a batch at a time. Each batch's results are passed to
+// onBatch as { [cardId]: distractors } along with how many cards have been done, so nothing is lost if a later batch fails.
+const generateDistractorsAI = async (cards, { signal, onBatch = () => {} } = {}) => {
+  const provider = getAIProvider();
+  let produced = 0;
+  for (let start = 0; start < cards.length; start += DISTRACTOR_BATCH) {
+    const batch = cards.slice(start, start + DISTRACTOR_BATCH);
+    let entries = [];
+    try {
+      const data = parseLooseJSON(await provider.complete({
+        system: `You write wrong answer options for multiple-choice flashcard quizzes.
+              For every card in the user's JSON list, write ${DISTRACTOR_COUNT} wrong terms that someone could mistake for the right term given its definition,
+              and ${DISTRACTOR_COUNT} wrong definitions that someone could mistake for the right one given its term.
+              Each must be from the same category as the right answer (another date for a date, another organelle for an organelle),
+              similar in length and style, written in the card's language and plainly wrong to someone who knows the material.
+              Never use the right answer, a synonym of it or a partly correct answer.
+              Return ONLY valid JSON (no markdown formatting, no code blocks) with this exact structure:
+              {"cards": [{"id": "the card's id", "terms": ["..."], "defs": ["..."]}]}`,
+        messages: [{ role: 'user', content: JSON.stringify(batch.map(c => ({ id: c.id, term: c.term, def: c.def }))) }],
+        json: true,
+        signal
+      }));
+      entries = (Array.isArray(data) ? data : data?.cards) || [];
+    } catch (error) {
+      // An unreadable batch is skipped; the cards in it keep using other cards as options
+      if (error.kind !== 'parse') throw error;
+    }
+
+    const distractors = {};
+    entries.filter(isPlainObject).forEach(entry => {
+      const card = batch.find(c => c.id === entry.id);
+      if (!card) return;
+      const usable = (list, answer) => {
+        const seen = new Set([normalizeAnswer(answer)]);
+        return (Array.isArray(list) ? list : [])
+          .filter(item => typeof item === 'string' && item.trim())
+          .map(item => item.trim())
+          .filter(item => !seen.has(normalizeAnswer(item)) && seen.add(normalizeAnswer(item)))
+          .slice(0, DISTRACTOR_COUNT);
+      };
+      const terms = usable(entry.terms, card.term);
+      if (terms.length > 0) distractors[card.id] = { key: distractorKey(card), terms, defs: usable(entry.defs, card.def) };
+    });
+    produced += Object.keys(distractors).length;
+    onBatch(distractors, Math.min(start + DISTRACTOR_BATCH, cards.length));
+  }
+  if (produced === 0) throw aiError('parse', "The AI's replies didn't contain any usable answer options. Try again.");
+};
+
+// AI grading is skipped offline, with the mock provider and when Gemini is selected but no key is set
+const canGradeWithAI = (settings = getAISettings()) => navigator.onLine
+  && settings.provider !== 'mock'
+  && (settings.provider !== 'gemini' || Boolean(getEffectiveApiKey(settings)));
 
-    return JSON.parse(content);
+const GRADE_VERDICTS = ['correct', 'partial', 'incorrect'];
+
+// Grades a typed answer to the `side` ('term' or 'def') of a card by meaning, resolving with
+// { verdict, correct, typo, explanation, source } like gradeAnswerOffline. Exact and near-exact answers are accepted
+// without asking the AI; when the AI can't be used or fails, the answer is graded by gradeAnswerOffline instead.
+const gradeAnswerWithAI = async (answer, card, side = 'term', { signal } = {}) => {
+  const offline = gradeAnswerOffline(answer, card[side]);
+  if (offline.correct || !normalizeAnswer(answer) || !canGradeWithAI()) return offline;
+
+  const cacheKey = hashText(JSON.stringify([side, card.term, card.def, normalizeAnswer(answer)]));
+  const cached = readGradeCache()[cacheKey];
+  if (cached) return cached;
+
+  const question = side === 'term' ? card.def : card.term;
+  try {
+    const reply = parseLooseJSON(await getAIProvider().complete({
+      system: `You grade a student's typed answer to a flashcard. Judge the meaning, not the wording:
+              paraphrases, synonyms and a different word order are correct when they say the same thing,
+              and spelling or grammar mistakes don't matter unless they change the meaning.
+              An answer that leaves out an essential part or is too vague is partial; a wrong or contradicting answer is incorrect.
+              Return ONLY valid JSON (no markdown formatting, no code blocks) with this exact structure:
+              {"verdict": "correct" | "partial" | "incorrect", "explanation": "One short sentence to the student saying why."}`,
+      messages: [{ role: 'user', content: `${side === 'term' ? 'Definition' : 'Term'} shown: ${question}\nExpected ${side === 'term' ? 'term' : 'definition'}: ${card[side]}\nStudent's answer: ${answer}` }],
+      json: true,
+      signal
+    }));
+    const verdict = GRADE_VERDICTS.find(v => pickText(reply, ['verdict', 'grade', 'result']).toLowerCase().startsWith(v.slice(0, 4)));
+    if (!verdict) throw aiError('parse', 'The reply has no verdict.');
+    const grade = { verdict, correct: verdict === 'correct', typo: false, explanation: pickText(reply, ['explanation', 'reason', 'feedback']), source: 'ai' };
+    cacheGrade(cacheKey, grade);
+    return grade;
   } catch (error) {
-    console.error("AI Generation Error:", error);
-    throw new Error(error.message || "Failed to generate flashcards.");
+    if (isAbortError(error)) throw error;
+    // The text-matching grade stands in
+    console.error("AI Grading Error:", error);
+    return offline;
   }
 };
 
-const chatWithAI = async (message, contextSet, history) => {
-  const key = getEffectiveApiKey();
-  if (!key) return "Please set your API Key in Settings to use the AI Tutor.";
+// Grades [{ answer, card, side }] one at a time, so a whole test stays under the QuizDeck server's rate limit.
+// The budget is checked once up front; if the user doesn't want to go over it, every answer is graded by text matching.
+const gradeAnswersWithAI = async (items, { signal } = {}) => {
+  let useAI = canGradeWithAI();
+  if (useAI && items.some(({ answer, card, side }) => !gradeAnswerOffline(answer, card[side]).correct)) {
+    try {
+      checkAIBudget();
+    } catch (error) {
+      if (error.kind !== 'budget') throw error;
+      useAI = false;
+    }
+  }
+  const grades = [];
+  for (const { answer, card, side } of items) {
+    grades.push(useAI ? await gradeAnswerWithAI(answer, card, side, { signal }) : gradeAnswerOffline(answer, card[side]));
+  }
+  return grades;
+};
+
+// How many earlier chat messages are sent along with a new question
+const CHAT_HISTORY_LIMIT = 20;
 
+// `history` is the conversation so far as [{ role: 'user' | 'ai', text }]. The reply streams through onToken;
+// if `signal` aborts, whatever arrived so far is returned.
+const chatWithAI = async (message, contextSet, history = [], { signal, onToken = () => {} } = {}) => {
+  let reply = '';
   try {
     // Construct context from the current set
     const setContext = contextSet 
-      ? `Current Study Set: "${contextSet.title}". Content: ${contextSet.cards.map(c => `${c.term}: ${c.def}`).join('; ')}.`
+      ? `Current Study Set: "${contextSet.title}". Cards (id | term | definition):\n${contextSet.cards.map(c => `${c.id} | ${c.term} | ${c.def}`).join('\n')}\n\n${TUTOR_ACTION_GUIDE}`
       : "No specific study set selected.";
 
-    const response = await fetch(
-      `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.5-flash-preview-09-2025:generateContent?key=${key}`,
-      {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          contents: [{
-            parts: [{
-              text: `You are a helpful study tutor named QuizBot. 
+    const earlier = history.slice(-CHAT_HISTORY_LIMIT).map(m => ({ role: m.role === 'ai' ? 'assistant' : 'user', content: m.text }));
+    // Conversations have to open with the user, so the greeting and anything cut off before it are dropped
+    const firstQuestion = earlier.findIndex(m => m.role === 'user');
+
+    return await getAIProvider().stream({
+      system: `You are a helpful study tutor named QuizBot. 
               Context: ${setContext}
-              User Question: ${message}
               
               Answer the user's question. If they ask about the current set, use the provided content. 
-              Keep answers concise (under 3 sentences) and encouraging.`
-            }]
-          }]
-        })
+              Keep answers concise (under 3 sentences) and encouraging.
+              You may format answers with Markdown, code blocks and LaTeX math between $ signs.`,
+      messages: [...(firstQuestion < 0 ? [] : earlier.slice(firstQuestion)), { role: 'user', content: message }],
+      signal,
+      onToken: (token) => {
+        reply += token;
+        onToken(token);
       }
-    );
-
-    if (!response.ok) {
-       if (response.status === 401) return "Error: Invalid API Key. Please check Settings.";
-       return "I'm having trouble reaching the server right now. Please try again later.";
-    }
-
-    const data = await response.json();
-    return data.candidates[0].content.parts[0].text;
+    });
   } catch (error) {
+    if (isAbortError(error)) return reply;
     console.error("Chat Error:", error);
-    return "Sorry, I'm having trouble connecting to my brain right now.";
+    return `${reply ? `${reply}\n\n` : ''}Sorry, I couldn't answer that. ${error.message}`;
   }
 };
 
 /**
- * UTILITIES
+ * AI USAGE
+ * Every AI request is recorded in a ledger kept in localStorage, per day and model:
+ *   { [day]: { [model]: { requests, cached, inputTokens, outputTokens, cost } } }
+ * `cost` is an estimate in US$ from AI_MODEL_PRICES; models without a known price (e.g. local ones) add nothing.
+ * `cached` counts generations answered from the cache of earlier results instead of the provider.
+ * AI verdicts on typed answers are cached too, so the same answer to the same card is only sent once.
+ * Before each request the daily and monthly budgets from the AI settings are checked against the ledger.
  */
-const shuffleArray = (array) => {
-  const newArray = [...array];
-  for (let i = newArray.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [newArray[i], newArray[j]] = [newArray[j], newArray[i]];
-  }
-  return newArray;
+const AI_USAGE_KEY = 'quizdeck_ai_usage';
+const AI_USAGE_DAYS = 400;
+const AI_CACHE_KEY = 'quizdeck_ai_cache';
+const AI_CACHE_LIMIT = 30;
+const GRADE_CACHE_KEY = 'quizdeck_grade_cache';
+const GRADE_CACHE_LIMIT = 500;
+
+// US$ per million input / output tokens. A model uses the longest name here that it starts with.
+const AI_MODEL_PRICES = {
+  'gemini-2.5-pro': { input: 1.25, output: 10 },
+  'gemini-2.5-flash': { input: 0.30, output: 2.50 },
+  'gemini-2.5-flash-lite': { input: 0.10, output: 0.40 },
+  'gemini-2.0-flash': { input: 0.10, output: 0.40 },
+  'gemini-2.0-flash-lite': { input: 0.075, output: 0.30 },
+  'gpt-4o': { input: 2.50, output: 10 },
+  'gpt-4o-mini': { input: 0.15, output: 0.60 },
+  'gpt-4.1': { input: 2, output: 8 },
+  'gpt-4.1-mini': { input: 0.40, output: 1.60 },
+  'gpt-4.1-nano': { input: 0.10, output: 0.40 }
 };
 
-const generateId = () => Math.random().toString(36).substr(2, 9);
+const getModelPrice = (model) => {
+  const match = Object.keys(AI_MODEL_PRICES).filter(name => model.startsWith(name)).sort((a, b) => b.length - a.length)[0];
+  return match ? AI_MODEL_PRICES[match] : null;
+};
 
-// Mock Initial Data
-const INITIAL_SETS = [
-  {
-    id: '1',
-    title: 'Biology 101: The Cell',
-    description: 'Basic structure and function of cells',
-    cards: [
-      { id: 'c1', term: 'Mitochondria', def: 'The powerhouse of the cell; generates ATP.' },
-      { id: 'c2', term: 'Nucleus', def: 'Contains the cell\'s genetic material (DNA).' },
-      { id: 'c3', term: 'Ribosome', def: ' The site of protein synthesis.' },
-      { id: 'c4', term: 'Mitosis', def: 'Process of cell division resulting in two identical daughter cells.' },
-      { id: 'c5', term: 'Osmosis', def: 'Movement of water molecules through a semi-permeable membrane.' },
-      { id: 'c6', term: 'Chloroplast', def: 'Organelle where photosynthesis occurs in plant cells.' }
-    ]
+const formatCost = (dollars) => (dollars > 0 && dollars < 0.01 ? '< $0.01' : `$${dollars.toFixed(2)}`);
+
+const readAIUsage = () => {
+  try {
+    return JSON.parse(localStorage.getItem(AI_USAGE_KEY)) || {};
+  } catch {
+    return {};
   }
-];
+};
 
-/**
- * SUB-COMPONENTS
- */
+// `usage` is { inputTokens, outputTokens } as reported by the provider, or null if it reported nothing
+const recordAIUsage = (model, usage, { cached = false } = {}) => {
+  const ledger = readAIUsage();
+  const today = toDayKey(Date.now());
+  const day = ledger[today] || {};
+  const entry = day[model] || { requests: 0, cached: 0, inputTokens: 0, outputTokens: 0, cost: 0 };
+  if (cached) entry.cached++;
+  else entry.requests++;
+  if (usage) {
+    const price = getModelPrice(model);
+    entry.inputTokens += usage.inputTokens;
+    entry.outputTokens += usage.outputTokens;
+    if (price) entry.cost += (usage.inputTokens * price.input + usage.outputTokens * price.output) / 1e6;
+  }
+  ledger[today] = { ...day, [model]: entry };
+  const oldest = toDayKey(Date.now() - AI_USAGE_DAYS * DAY_MS);
+  Object.keys(ledger).filter(key => key < oldest).forEach(key => delete ledger[key]);
+  try {
+    localStorage.setItem(AI_USAGE_KEY, JSON.stringify(ledger));
+  } catch (error) {
+    console.error("AI Usage Save Error:", error);
+  }
+};
 
-// 1. SETTINGS MODAL
-const SettingsModal = ({ isOpen, onClose, darkMode }) => {
-  const [key, setKey] = useState(localStorage.getItem('quizdeck_api_key') || '');
-  
-  const handleSave = () => {
-    localStorage.setItem('quizdeck_api_key', key.trim());
-    onClose();
-  };
+// Totals for the days from `since` (a day key) on, overall and per model
+const summarizeAIUsage = (ledger, since = '') => {
+  const totals = { requests: 0, cached: 0, inputTokens: 0, outputTokens: 0, cost: 0 };
+  const models = {};
+  Object.entries(ledger).filter(([day]) => day >= since).forEach(([, day]) => Object.entries(day).forEach(([model, entry]) => {
+    models[model] = models[model] || { model, priced: Boolean(getModelPrice(model)), requests: 0, cached: 0, inputTokens: 0, outputTokens: 0, cost: 0 };
+    ['requests', 'cached', 'inputTokens', 'outputTokens', 'cost'].forEach(field => {
+      totals[field] += entry[field];
+      models[model][field] += entry[field];
+    });
+  }));
+  return { ...totals, models: Object.values(models).sort((a, b) => b.requests - a.requests) };
+};
 
-  if (!isOpen) return null;
+// The budgets that are set, each with what has been spent in its period
+const getAIBudgets = (settings = getAISettings(), ledger = readAIUsage(), now = Date.now()) => {
+  const today = toDayKey(now);
+  return [
+    { period: 'daily', key: today, limit: Number(settings.dailyBudget), since: today },
+    { period: 'monthly', key: today.slice(0, 7), limit: Number(settings.monthlyBudget), since: `${today.slice(0, 7)}-01` }
+  ]
+    .filter(budget => budget.limit > 0)
+    .map(budget => ({ ...budget, spent: summarizeAIUsage(ledger, budget.since).cost }));
+};
 
-  return (
-    <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/30 backdrop-blur-sm p-4 animate-in fade-in duration-200">
-      <div className={`w-full max-w-md rounded-3xl shadow-2xl p-8 animate-in zoom-in-95 duration-200 ${darkMode ? 'bg-[#1c1c1e] text-white border border-gray-800' : 'bg-white text-gray-900'}`}>
-        <div className="flex justify-between items-center mb-6">
-          <h2 className="text-xl font-bold flex items-center gap-2 tracking-tight">
-            <Settings className="text-indigo-500" /> Settings
-          </h2>
-          <button onClick={onClose} className={`p-2 rounded-full transition ${darkMode ? 'bg-gray-800 hover:bg-gray-700' : 'bg-gray-100 hover:bg-gray-200'}`}>
-            <X size={20} />
-          </button>
-        </div>
+// Budget periods ('daily:2026-03-04') the user chose to keep going past in warn mode
+const acknowledgedBudgets = new Set();
 
-        <div className="space-y-4 mb-8">
-          <div>
-            <label className={`block text-sm font-semibold mb-2 ml-1 ${darkMode ? 'text-gray-300' : 'text-gray-700'}`}>Google Gemini API Key</label>
-            <div className={`flex items-center rounded-2xl px-4 py-3 transition-all ${darkMode ? 'bg-[#2c2c2e] focus-within:bg-[#3a3a3c]' : 'bg-gray-100 focus-within:bg-gray-50 focus-within:ring-2 focus-within:ring-indigo-500/20'}`}>
-              <Key size={18} className="text-gray-400 mr-3" />
-              <input 
-                type="password" 
-                value={key}
-                onChange={(e) => setKey(e.target.value)}
-                placeholder="Enter your API Key"
-                className="bg-transparent border-none outline-none flex-1 text-sm"
-              />
-            </div>
-            <p className="text-xs text-gray-500 mt-3 ml-1">
-              Required for AI features. Your key is stored locally in your browser.
-            </p>
-          </div>
-        </div>
+// Throws a 'budget' error when a budget has been used up and the user doesn't want to go on
+const checkAIBudget = (settings = getAISettings()) => {
+  const over = getAIBudgets(settings).find(budget => budget.spent >= budget.limit);
+  if (!over || acknowledgedBudgets.has(`${over.period}:${over.key}`)) return;
+  const message = `You've used ${formatCost(over.spent)} of your ${formatCost(over.limit)} ${over.period} AI budget.`;
+  if (settings.budgetMode === 'block') {
+    throw aiError('budget', `${message} AI features are paused until ${over.period === 'daily' ? 'tomorrow' : 'next month'}, or raise the budget in Settings.`);
+  }
+  if (!window.confirm(`${message}\n\nKeep using AI features anyway? You won't be asked again ${over.period === 'daily' ? 'today' : 'this month'}.`)) {
+    throw aiError('budget', message);
+  }
+  acknowledgedBudgets.add(`${over.period}:${over.key}`);
+};
 
-        <div className="flex justify-end">
-          <button 
-            onClick={handleSave}
-            className="px-6 py-3 bg-indigo-600 text-white font-semibold rounded-full hover:bg-indigo-700 active:scale-95 transition-all shadow-lg shadow-indigo-500/30"
-          >
-            Save Settings
-          </button>
-        </div>
-      </div>
-    </div>
-  );
+// cyrb53, a fast 53-bit string hash: plenty to tell inputs apart, though not for anything security related
+const hashText = (text) => {
+  let h1 = 0xdeadbeef;
+  let h2 = 0x41c6ce57;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text.charCodeAt(i);
+    h1 = Math.imul(h1 ^ ch, 2654435761);
+    h2 = Math.imul(h2 ^ ch, 1597334677);
+  }
+  h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+  h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+  return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
 };
 
-// 2. CHAT WIDGET COMPONENT
-const ChatWidget = ({ activeSet, darkMode }) => {
-  const [isOpen, setIsOpen] = useState(false);
-  const [messages, setMessages] = useState([
-    { role: 'ai', text: 'Hi! I can help you study this set. Ask me to quiz you or explain a term!' }
-  ]);
-  const [input, setInput] = useState('');
-  const [isLoading, setIsLoading] = useState(false);
-  const messagesEndRef = useRef(null);
+// Most recently used first: [{ key, result }]
+const readAICache = () => {
+  try {
+    return JSON.parse(localStorage.getItem(AI_CACHE_KEY)) || [];
+  } catch {
+    return [];
+  }
+};
 
-  const scrollToBottom = () => {
-    messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
-  };
+const writeAICache = (entries) => {
+  try {
+    localStorage.setItem(AI_CACHE_KEY, JSON.stringify(entries));
+  } catch (error) {
+    console.error("AI Cache Save Error:", error);
+  }
+};
 
-  useEffect(() => {
-    if (isOpen) scrollToBottom();
-  }, [messages, isOpen]);
+const getCachedGeneration = (key) => {
+  const entries = readAICache();
+  const hit = entries.find(entry => entry.key === key);
+  if (hit) writeAICache([hit, ...entries.filter(entry => entry !== hit)]);
+  return hit?.result || null;
+};
 
-  const handleSend = async () => {
-    if (!input.trim()) return;
-    
-    const userMsg = { role: 'user', text: input };
-    setMessages(prev => [...prev, userMsg]);
+const cacheGeneration = (key, result) => {
+  writeAICache([{ key, result }, ...readAICache().filter(entry => entry.key !== key)].slice(0, AI_CACHE_LIMIT));
+};
+
+// { [hashText of the card and answer]: grade }, oldest first
+const readGradeCache = () => {
+  try {
+    return JSON.parse(localStorage.getItem(GRADE_CACHE_KEY)) || {};
+  } catch {
+    return {};
+  }
+};
+
+const cacheGrade = (key, grade) => {
+  const cache = readGradeCache();
+  delete cache[key];
+  cache[key] = grade;
+  const keys = Object.keys(cache);
+  keys.slice(0, Math.max(0, keys.length - GRADE_CACHE_LIMIT)).forEach(old => delete cache[old]);
+  try {
+    localStorage.setItem(GRADE_CACHE_KEY, JSON.stringify(cache));
+  } catch (error) {
+    console.error("Grading Cache Save Error:", error);
+  }
+};
+
+// Today's, this month's and all-time totals, as shown in Settings
+const getAIUsagePeriods = (ledger, now = Date.now()) => {
+  const today = toDayKey(now);
+  return [
+    { label: 'Today', ...summarizeAIUsage(ledger, today) },
+    { label: 'This month', ...summarizeAIUsage(ledger, `${today.slice(0, 7)}-01`) },
+    { label: 'All time', ...summarizeAIUsage(ledger) }
+  ];
+};
+
+/**
+ * AI REPLY VALIDATION
+ * Generated sets are repaired where possible, checked against the expected shape and normalized to
+ * { title, description, cards: [{ term, def }] }. Anything unusable throws a 'parse' aiError whose
+ * message describes the problem well enough to send back to the model.
+ */
+const AI_MAX_ATTEMPTS = 3;
+// How many closing brackets from the end are tried when salvaging a reply that was cut off
+const JSON_SALVAGE_TRIES = 200;
+
+// Appends the brackets still open at the end of `prefix`; null when it ends inside a string
+const closeJSON = (prefix) => {
+  const closers = [];
+  let inString = false;
+  let escaped = false;
+  for (const ch of prefix) {
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (ch === '\\') escaped = true;
+      else if (ch === '"') inString = false;
+    } else if (ch === '"') {
+      inString = true;
+    } else if (ch === '{' || ch === '[') {
+      closers.push(ch === '{' ? '}' : ']');
+    } else if (ch === '}' || ch === ']') {
+      closers.pop();
+    }
+  }
+  return inString ? null : prefix + closers.reverse().join('');
+};
+
+// Drops commas just before a closing bracket, leaving text inside strings alone
+const stripTrailingCommas = (text) => {
+  const closingNext = /\s*[}\]]/y;
+  let result = '';
+  let inString = false;
+  let escaped = false;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (ch === '\\') escaped = true;
+      else if (ch === '"') inString = false;
+    } else if (ch === '"') {
+      inString = true;
+    } else if (ch === ',') {
+      closingNext.lastIndex = i + 1;
+      if (closingNext.test(text)) continue;
+    }
+    result += ch;
+  }
+  return result;
+};
+
+// Repairs code fences, text around the JSON, trailing commas and replies cut off part way (the unfinished tail is dropped)
+const parseLooseJSON = (content) => {
+  const unfenced = content.replace(/```(?:json)?/gi, '').trim();
+  const start = unfenced.search(/[{[]/);
+  if (start === -1) throw aiError('parse', "The reply doesn't contain any JSON.");
+  const text = stripTrailingCommas(unfenced.slice(start));
+  let tries = 0;
+  for (let end = text.length - 1; end >= 0 && tries < JSON_SALVAGE_TRIES; end--) {
+    if (text[end] !== '}' && text[end] !== ']') continue;
+    tries++;
+    const candidate = closeJSON(text.slice(0, end + 1));
+    try {
+      if (candidate) return JSON.parse(candidate);
+    } catch {
+      // Keep cutting back
+    }
+  }
+  throw aiError('parse', "The reply isn't valid JSON.");
+};
+
+// Field names models commonly use instead of the ones asked for
+const TERM_FIELDS = ['term', 'front', 'question', 'word', 'concept'];
+const DEF_FIELDS = ['def', 'definition', 'back', 'answer', 'meaning', 'explanation'];
+
+const pickText = (value, fields) => {
+  const field = fields.find(f => typeof value?.[f] === 'string' || typeof value?.[f] === 'number');
+  return field ? String(value[field]).trim() : '';
+};
+
+const toGeneratedSet = (data) => {
+  const list = Array.isArray(data) ? data : data?.cards ?? data?.flashcards ?? data?.items;
+  if (!Array.isArray(list)) throw aiError('parse', 'The reply has no "cards" array.');
+  const cards = list
+    .filter(isPlainObject)
+    .map(card => ({ term: pickText(card, TERM_FIELDS), def: pickText(card, DEF_FIELDS) }))
+    .filter(card => card.term && card.def);
+  if (cards.length === 0) {
+    throw aiError('parse', list.length > 0 ? 'None of the cards has both a "term" and a "def".' : 'The "cards" array is empty.');
+  }
+  return {
+    title: pickText(data, ['title', 'name']) || "AI Generated Set",
+    description: pickText(data, ['description', 'summary']) || "Created from your notes",
+    cards
+  };
+};
+
+const parseGeneratedSet = (content) => toGeneratedSet(parseLooseJSON(content));
+
+/**
+ * DOCUMENT INGESTION
+ * Long sources are split into sections that are each generated by their own request: pasted text at its
+ * headings (and at paragraphs when a part is still too long), PDFs into runs of pages, and each image on its own.
+ * A section is { label, text, file } where `file` is null or { base64, mimeType }.
+ */
+const TEXT_SECTION_CHARS = 12000;
+const PDF_PAGES_PER_SECTION = 10;
+const MAX_UPLOAD_FILES = 10;
+
+// pdf-lib is only loaded once a PDF is added
+const loadPdfLib = () => import('pdf-lib');
+
+const loadPdf = async (base64) => {
+  const { PDFDocument } = await loadPdfLib();
+  return PDFDocument.load(base64, { ignoreEncryption: true });
+};
+
+// Copies pages from..to (1-based, inclusive) of a loaded PDF into a new one, returned as base64
+const extractPdfPages = async (pdf, from, to) => {
+  const { PDFDocument } = await loadPdfLib();
+  const part = await PDFDocument.create();
+  const pages = await part.copyPages(pdf, Array.from({ length: to - from + 1 }, (_, i) => from - 1 + i));
+  pages.forEach(page => part.addPage(page));
+  return part.saveAsBase64();
+};
+
+// Cuts text into pieces of at most maxChars, preferring paragraph breaks
+const splitLongText = (text, maxChars) => {
+  const pieces = [];
+  let current = '';
+  text.split(/\n\s*\n/).forEach(paragraph => {
+    for (let rest = paragraph; rest; rest = rest.slice(maxChars)) {
+      const chunk = rest.slice(0, maxChars);
+      if (current && current.length + chunk.length + 2 > maxChars) {
+        pieces.push(current);
+        current = '';
+      }
+      current = current ? `${current}\n\n${chunk}` : chunk;
+    }
+  });
+  if (current.trim()) pieces.push(current);
+  return pieces;
+};
+
+// Splits text at Markdown headings, then joins small neighbouring parts and cuts up long ones
+const splitTextSections = (text, maxChars = TEXT_SECTION_CHARS) => {
+  const parts = [];
+  text.split('\n').forEach(line => {
+    const heading = line.match(/^#{1,3}\s+(.+)/)?.[1].trim();
+    const last = parts[parts.length - 1];
+    if (!last || (heading && last.body.trim())) parts.push({ heading: heading || null, body: `${line}\n` });
+    else {
+      last.heading = last.heading || heading || null;
+      last.body += `${line}\n`;
+    }
+  });
+
+  const sections = [];
+  parts.filter(part => part.body.trim()).forEach(part => {
+    const label = part.heading || 'Notes';
+    const last = sections[sections.length - 1];
+    if (part.body.length > maxChars) {
+      splitLongText(part.body, maxChars).forEach((piece, i) => sections.push({ label: `${label} (part ${i + 1})`, text: piece, file: null }));
+    } else if (last && last.text.length + part.body.length <= maxChars && !/\(part \d+\)$/.test(last.label)) {
+      last.text += part.body;
+      last.label = last.label === label ? label : `${last.label.split(' – ')[0]} – ${label}`;
+    } else {
+      sections.push({ label, text: part.body, file: null });
+    }
+  });
+  return sections;
+};
+
+const readFileAsDataURL = (file) => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(file);
+});
+
+// `files` are uploads as kept by AIGenerator: { name, base64, mimeType, from, to, pageCount }, or { name, text }
+// for documents whose text was extracted (see TEXT EXTRACTION)
+const planSections = async (text, files) => {
+  const sections = text.trim() ? splitTextSections(text) : [];
+  for (const file of files) {
+    if (typeof file.text === 'string') {
+      const parts = splitTextSections(file.text);
+      parts.forEach(part => sections.push({ ...part, label: parts.length > 1 ? `${file.name}: ${part.label}` : file.name }));
+      continue;
+    }
+    if (file.mimeType !== 'application/pdf') {
+      sections.push({ label: file.name, text: '', file: { base64: file.base64, mimeType: file.mimeType } });
+      continue;
+    }
+    const from = Math.max(1, file.from || 1);
+    const to = Math.min(file.pageCount || Infinity, file.to || Infinity);
+    if (from === 1 && to >= file.pageCount && file.pageCount <= PDF_PAGES_PER_SECTION) {
+      sections.push({ label: file.name, text: '', file: { base64: file.base64, mimeType: file.mimeType } });
+      continue;
+    }
+    let pdf;
+    try {
+      pdf = await loadPdf(file.base64);
+    } catch {
+      throw new Error(`Couldn't read the pages of ${file.name}. Try saving it as a new PDF.`);
+    }
+    for (let start = from; start <= to; start += PDF_PAGES_PER_SECTION) {
+      const end = Math.min(to, start + PDF_PAGES_PER_SECTION - 1);
+      sections.push({
+        label: `${file.name}, ${start === end ? `page ${start}` : `pages ${start}–${end}`}`,
+        text: '',
+        file: { base64: await extractPdfPages(pdf, start, end), mimeType: 'application/pdf' }
+      });
+    }
+  }
+  return sections;
+};
+
+/**
+ * TEXT EXTRACTION
+ * Word, PowerPoint, Markdown, plain-text and HTML files are turned into text in the browser so they can be
+ * generated from like pasted notes. Headings come out as Markdown `#` lines, so splitTextSections cuts long
+ * documents at their chapters and a slide deck at its slides.
+ */
+const parseXML = (xml) => new DOMParser().parseFromString(xml, 'application/xml');
+
+const tidyText = (text) => text
+  .split('\n')
+  .map(line => line.replace(/[ \t\u00a0]+/g, ' ').trim())
+  .join('\n')
+  .replace(/\n{3,}/g, '\n\n')
+  .trim();
+
+const readZipEntries = async (file, pattern) => unzipSync(new Uint8Array(await file.arrayBuffer()), { filter: entry => pattern.test(entry.name) });
+
+const extractDocxText = async (file) => {
+  const entries = await readZipEntries(file, /^word\/document\.xml$/);
+  if (!entries['word/document.xml']) throw new Error("This doesn't look like a Word document.");
+  const doc = parseXML(strFromU8(entries['word/document.xml']));
+  const lines = [...doc.getElementsByTagName('w:p')].map(paragraph => {
+    const text = [...paragraph.getElementsByTagName('*')].map(el => {
+      if (el.nodeName === 'w:t') return el.textContent;
+      if (el.nodeName === 'w:tab') return ' ';
+      if (el.nodeName === 'w:br' || el.nodeName === 'w:cr') return '\n';
+      return '';
+    }).join('');
+    const style = paragraph.getElementsByTagName('w:pStyle')[0]?.getAttribute('w:val') || '';
+    const level = style === 'Title' ? 1 : Number(style.match(/^Heading(\d)$/i)?.[1]);
+    if (level && level <= 3 && text.trim()) return `${'#'.repeat(level)} ${text}`;
+    if (paragraph.getElementsByTagName('w:numPr').length > 0 && text.trim()) return `- ${text}`;
+    return text;
+  });
+  return tidyText(lines.join('\n'));
+};
+
+// Paragraphs of a slide or notes page; slide-number fields are left out
+const drawingParagraphs = (doc) => [...doc.getElementsByTagName('a:p')]
+  .map(paragraph => [...paragraph.getElementsByTagName('a:t')].filter(t => t.parentNode.nodeName !== 'a:fld').map(t => t.textContent).join(''))
+  .filter(text => text.trim());
+
+const extractPptxText = async (file) => {
+  const entries = await readZipEntries(file, /^ppt\/(slides|notesSlides)\/(_rels\/)?[^/]+\.xml(\.rels)?$/);
+  const slideNumber = (name) => Number(name.match(/slide(\d+)\.xml$/)[1]);
+  // Slides are numbered by file name, which matches their order in decks saved by PowerPoint
+  const slideNames = Object.keys(entries).filter(name => /^ppt\/slides\/slide\d+\.xml$/.test(name)).sort((a, b) => slideNumber(a) - slideNumber(b));
+  if (slideNames.length === 0) throw new Error("This doesn't look like a PowerPoint presentation.");
+
+  const slides = slideNames.map((name, i) => {
+    const [title, ...body] = drawingParagraphs(parseXML(strFromU8(entries[name])));
+    const rels = entries[name.replace('slides/', 'slides/_rels/') + '.rels'];
+    const notesTarget = rels && [...parseXML(strFromU8(rels)).getElementsByTagName('Relationship')]
+      .find(rel => rel.getAttribute('Type')?.endsWith('/notesSlide'))
+      ?.getAttribute('Target');
+    const notesXML = notesTarget && entries[`ppt/notesSlides/${notesTarget.split('/').pop()}`];
+    const notes = notesXML ? drawingParagraphs(parseXML(strFromU8(notesXML))) : [];
+    return [
+      `# Slide ${i + 1}${title ? `: ${title}` : ''}`,
+      ...body,
+      ...(notes.length > 0 ? ['', `Speaker notes: ${notes.join('\n')}`] : [])
+    ].join('\n');
+  });
+  return tidyText(slides.join('\n\n'));
+};
+
+const extractHtmlText = async (file) => {
+  const doc = new DOMParser().parseFromString(await file.text(), 'text/html');
+  doc.querySelectorAll('script, style, noscript, template').forEach(el => el.remove());
+  doc.querySelectorAll('h1, h2, h3').forEach(el => el.prepend(`${'#'.repeat(Number(el.tagName[1]))} `));
+  doc.querySelectorAll('li').forEach(el => el.prepend('- '));
+  doc.querySelectorAll('p, div, h1, h2, h3, h4, h5, h6, section, article, blockquote, pre, table, ul, ol').forEach(el => {
+    el.before('\n');
+    el.after('\n');
+  });
+  doc.querySelectorAll('li, tr, br').forEach(el => el.after('\n'));
+  return tidyText(doc.body?.textContent || '');
+};
+
+const extractPlainText = async (file) => tidyText(await file.text());
+
+// Keyed by file extension, since browsers often report no MIME type for .md files
+const TEXT_EXTRACTORS = {
+  docx: extractDocxText,
+  pptx: extractPptxText,
+  md: extractPlainText,
+  markdown: extractPlainText,
+  txt: extractPlainText,
+  html: extractHtmlText,
+  htm: extractHtmlText
+};
+
+const getTextExtractor = (fileName) => TEXT_EXTRACTORS[fileName.split('.').pop().toLowerCase()] || null;
+
+/**
+ * UTILITIES
+ */
+const shuffleArray = (array) => {
+  const newArray = [...array];
+  for (let i = newArray.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [newArray[i], newArray[j]] = [newArray[j], newArray[i]];
+  }
+  return newArray;
+};
+
+const generateId = () => Math.random().toString(36).substr(2, 9);
+
+// The same set narrowed to its starred cards
+const onlyStarred = (set) => ({ ...set, cards: set.cards.filter(c => c.starred) });
+
+// Splits cards into separate term/definition items that remember which card they came from
+const toPairItems = (cards) => cards.flatMap(card => [
+  { id: `${card.id}-term`, content: card.term, image: card.termImage, type: 'term', parentId: card.id },
+  { id: `${card.id}-def`, content: card.def, image: card.defImage, type: 'def', parentId: card.id }
+]);
+
+/**
+ * SPACED REPETITION (SM-2)
+ * Each card may carry a `review` object: { ease, interval (days), due (ms), lapses, reps, lastReviewed }.
+ * Cards without one are new and count as due.
+ */
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RELEARN_MS = 10 * 60 * 1000;
+const MIN_EASE = 1.3;
+
+const DEFAULT_REVIEW = { ease: 2.5, interval: 0, due: 0, lapses: 0, reps: 0, lastReviewed: null };
+
+const REVIEW_GRADES = [
+  { id: 'again', label: 'Again', key: '1', className: 'bg-red-500 hover:bg-red-600 shadow-red-500/30' },
+  { id: 'hard', label: 'Hard', key: '2', className: 'bg-amber-500 hover:bg-amber-600 shadow-amber-500/30' },
+  { id: 'good', label: 'Good', key: '3', className: 'bg-emerald-500 hover:bg-emerald-600 shadow-emerald-500/30' },
+  { id: 'easy', label: 'Easy', key: '4', className: 'bg-sky-500 hover:bg-sky-600 shadow-sky-500/30' }
+];
+
+const scheduleReview = (review, grade, now = Date.now()) => {
+  const { reps, lapses } = { ...DEFAULT_REVIEW, ...review };
+  let { ease, interval } = { ...DEFAULT_REVIEW, ...review };
+
+  if (grade === 'again') {
+    // Forgotten: relearn shortly, and count a lapse if the card had been learned
+    return {
+      ease: Math.max(MIN_EASE, ease - 0.2),
+      interval: 0,
+      due: now + RELEARN_MS,
+      lapses: reps > 0 ? lapses + 1 : lapses,
+      reps: 0,
+      lastReviewed: now
+    };
+  }
+
+  if (grade === 'hard') {
+    ease = Math.max(MIN_EASE, ease - 0.15);
+    interval = reps === 0 ? 1 : Math.max(interval + 1, Math.round(interval * 1.2));
+  } else if (grade === 'good') {
+    interval = reps === 0 ? 1 : reps === 1 ? 3 : Math.round(interval * ease);
+  } else {
+    ease += 0.15;
+    interval = reps === 0 ? 4 : Math.round(Math.max(interval, 1) * ease * 1.3);
+  }
+
+  return { ease, interval, due: now + interval * DAY_MS, lapses, reps: reps + 1, lastReviewed: now };
+};
+
+const isCardDue = (card, now = Date.now()) => !card.review || card.review.due <= now;
+
+const getDueCards = (cards, now = Date.now()) => cards.filter(c => isCardDue(c, now));
+
+// Due cards first (most overdue first), then the rest by upcoming due date
+const sortByDue = (cards) => [...cards].sort((a, b) => (a.review?.due ?? 0) - (b.review?.due ?? 0));
+
+const formatInterval = (ms) => {
+  if (ms < 60 * 60 * 1000) return `${Math.max(1, Math.round(ms / 60000))}m`;
+  if (ms < DAY_MS) return `${Math.round(ms / (60 * 60 * 1000))}h`;
+  const days = Math.round(ms / DAY_MS);
+  if (days < 30) return `${days}d`;
+  if (days < 365) return `${Math.round(days / 30)}mo`;
+  return `${(days / 365).toFixed(1)}y`;
+};
+
+// Interval a grade would produce, for labelling the grading buttons
+const previewInterval = (review, grade) => formatInterval(scheduleReview(review, grade, 0).due);
+
+/**
+ * ANSWER GRADING
+ * Typed answers are compared after normalizing case, accents, punctuation and articles,
+ * and accepted with a few typos depending on the length of the expected answer.
+ */
+const ARTICLES = new Set(['a', 'an', 'the', 'le', 'la', 'les', 'l', 'un', 'une', 'des', 'el', 'los', 'las', 'der', 'die', 'das', 'ein', 'eine']);
+
+// Articles are dropped unless the answer is nothing but articles (a card whose term is "The" can still be answered)
+const normalizeAnswer = (text) => {
+  const words = (text || '')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .split(/\s+/)
+    .filter(Boolean);
+  const content = words.filter(word => !ARTICLES.has(word));
+  return (content.length > 0 ? content : words).join(' ');
+};
+
+const editDistance = (a, b) => {
+  let prev = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const curr = [i];
+    for (let j = 1; j <= b.length; j++) {
+      curr[j] = Math.min(
+        prev[j] + 1,
+        curr[j - 1] + 1,
+        prev[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    prev = curr;
+  }
+  return prev[b.length];
+};
+
+// Short answers must be exact; longer ones allow roughly one typo per five characters (max 3)
+const allowedTypos = (length) => Math.min(3, Math.floor(length / 5));
+
+const gradeWrittenAnswer = (answer, expected) => {
+  const given = normalizeAnswer(answer);
+  const target = normalizeAnswer(expected);
+  if (!given) return { correct: false, typo: false };
+  if (given === target) return { correct: true, typo: false };
+  const distance = editDistance(given, target);
+  return distance <= allowedTypos(target.length)
+    ? { correct: true, typo: true }
+    : { correct: false, typo: false };
+};
+
+// Graded without the AI: exact and near-exact answers are correct. Answers to longer questions that contain most of
+// the expected answer's key words are correct too, and those with half of them partly correct.
+// verdict is 'correct', 'partial' or 'incorrect'; `source` says whether the AI ('ai') or this matching ('match') decided.
+const gradeAnswerOffline = (answer, expected) => {
+  const grade = (verdict, typo = false) => ({ verdict, correct: verdict === 'correct', typo, explanation: '', source: 'match' });
+  const match = gradeWrittenAnswer(answer, expected);
+  if (match.correct) return grade('correct', match.typo);
+  const keyWords = significantWords(expected);
+  if (keyWords.size < 3) return grade('incorrect');
+  const given = significantWords(answer);
+  const share = [...keyWords].filter(word => given.has(word)).length / keyWords.size;
+  return grade(share >= 0.8 ? 'correct' : share >= 0.5 ? 'partial' : 'incorrect');
+};
+
+// The other card in `cards` with the same term once normalized, if any
+const findDuplicateCard = (card, cards) => {
+  const term = normalizeAnswer(card.term);
+  return term ? cards.find(c => c.id !== card.id && normalizeAnswer(c.term) === term) : undefined;
+};
+
+/**
+ * ANSWER OPTIONS
+ * Wrong options for multiple-choice and true/false questions. A card may carry distractors written by the AI:
+ *   distractors: { key, terms: [string], defs: [string] }
+ * where `key` is the hashText of the term and definition they were written for, so editing the card retires them.
+ * Without them, or to make up the number, the other cards of the set most like the card are used.
+ */
+const DISTRACTOR_COUNT = 3;
+
+const distractorKey = (card) => hashText(`${card.term}\u0000${card.def}`);
+
+// The card's AI distractors, if they were written for its current text
+const storedDistractors = (card) => (card.distractors?.key === distractorKey(card) ? card.distractors : null);
+
+const significantWords = (text) => new Set(normalizeAnswer(text).split(' ').filter(word => word.length > 2));
+
+// 0..1: how alike two cards are, by the words they share and the length of the side shown as the option
+const cardSimilarity = (a, b, side) => {
+  const wordsA = significantWords(`${a.term} ${a.def}`);
+  const wordsB = significantWords(`${b.term} ${b.def}`);
+  const shared = [...wordsA].filter(word => wordsB.has(word)).length;
+  const overlap = shared / Math.max(1, Math.min(wordsA.size, wordsB.size));
+  const length = Math.min(a[side].length, b[side].length) / Math.max(1, a[side].length, b[side].length);
+  return 0.6 * overlap + 0.4 * length;
+};
+
+// Wrong `side` ('term' or 'def') options for a card: its AI distractors first, then the most similar other cards,
+// picked at random from the closest few so repeated rounds vary. AI options get ids of their own and carry only `side`.
+const pickDistractors = (card, cards, count = DISTRACTOR_COUNT, side = 'term') => {
+  const seen = new Set([normalizeAnswer(card[side])]);
+  const isNew = (text) => {
+    const key = normalizeAnswer(text);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  };
+  const written = shuffleArray(storedDistractors(card)?.[side === 'term' ? 'terms' : 'defs'] || [])
+    .filter(isNew)
+    .slice(0, count)
+    .map((text, i) => ({ id: `${card.id}-distractor-${i}`, [side]: text }));
+  const needed = count - written.length;
+  const similar = cards
+    .filter(c => c.id !== card.id)
+    .map(c => ({ card: c, score: cardSimilarity(card, c, side) }))
+    .sort((a, b) => b.score - a.score)
+    .map(entry => entry.card)
+    .filter(c => (c[side] ? isNew(c[side]) : c[`${side}Image`]))
+    .slice(0, needed * 2);
+  return [...written, ...shuffleArray(similar).slice(0, needed)];
+};
+
+/**
+ * TUTOR ACTIONS
+ * Besides prose, the tutor can propose actions in fenced ```quizdeck-action blocks holding one JSON object:
+ *   { type: 'quiz', count }                       — start a quiz on the set inside the chat
+ *   { type: 'add_card', term, def }               — a new card for the set
+ *   { type: 'fix_definition', cardId, def, reason } — a corrected definition for an existing card
+ *   { type: 'flag_card', cardId, reason }         — a card whose definition looks wrong
+ * Nothing changes until the user accepts an action in the chat.
+ */
+const TUTOR_ACTION_FENCE = 'quizdeck-action';
+const CHAT_QUIZ_LENGTH = 5;
+const CHAT_QUIZ_MAX = 20;
+
+const TUTOR_ACTION_GUIDE = `You can also propose actions. Put each one in its own fenced code block with the language "${TUTOR_ACTION_FENCE}" containing one JSON object:
+- {"type": "quiz", "count": 5} when the user asks to be quizzed; the app asks the questions and grades the answers itself, so don't write the questions.
+- {"type": "add_card", "term": "...", "def": "..."} for a card worth adding that the set doesn't have.
+- {"type": "fix_definition", "cardId": "...", "def": "...", "reason": "..."} when a card's definition is wrong or incomplete.
+- {"type": "flag_card", "cardId": "...", "reason": "..."} when a definition looks wrong but you can't suggest a fix.
+Use the card ids from the context. Only propose actions that help with what the user asked, and mention them briefly in your answer.`;
+
+const TUTOR_ACTION_PATTERN = new RegExp('```' + TUTOR_ACTION_FENCE + '\\s*([\\s\\S]*?)```', 'g');
+// A block that is still streaming in has no closing fence yet
+const PARTIAL_ACTION_PATTERN = new RegExp('```' + TUTOR_ACTION_FENCE + '[\\s\\S]*$');
+
+const stripTutorActions = (text) => text.replace(TUTOR_ACTION_PATTERN, '').replace(PARTIAL_ACTION_PATTERN, '').trim();
+
+// Checks a proposed action against the set, returning a clean copy or null when it can't be applied
+const toTutorAction = (raw, set) => {
+  if (!set || !isPlainObject(raw)) return null;
+  const text = (value) => (typeof value === 'string' ? value.trim() : '');
+  const card = set.cards.find(c => c.id === raw.cardId);
+  const reason = text(raw.reason);
+  switch (raw.type) {
+    case 'quiz':
+      return { type: 'quiz', count: Math.min(Math.max(Math.round(Number(raw.count)) || CHAT_QUIZ_LENGTH, 1), CHAT_QUIZ_MAX) };
+    case 'add_card': {
+      const term = text(raw.term);
+      const def = text(raw.def);
+      return term && def && !findDuplicateCard({ term }, set.cards) ? { type: 'add_card', term, def } : null;
+    }
+    case 'fix_definition':
+      return card && text(raw.def) && text(raw.def) !== card.def
+        ? { type: 'fix_definition', cardId: card.id, term: card.term, def: text(raw.def), reason }
+        : null;
+    case 'flag_card':
+      return card ? { type: 'flag_card', cardId: card.id, term: card.term, reason } : null;
+    default:
+      return null;
+  }
+};
+
+// Splits a tutor reply into the prose to show and the actions it proposes
+const parseTutorReply = (reply, set) => {
+  const actions = [...reply.matchAll(TUTOR_ACTION_PATTERN)].flatMap(([, json]) => {
+    try {
+      const action = toTutorAction(JSON.parse(json), set);
+      return action ? [{ ...action, status: 'pending' }] : [];
+    } catch {
+      return [];
+    }
+  });
+  return { text: stripTutorActions(reply), actions };
+};
+
+// Cards a chat quiz can ask about: both sides need text, since answers are typed
+const pickQuizCards = (set, count = CHAT_QUIZ_LENGTH) => shuffleArray(set.cards.filter(c => c.term.trim() && c.def.trim())).slice(0, count);
+
+const formatQuizQuestion = (card, number, total) => `**Question ${number} of ${total}.** Which term matches this definition?\n\n${card.def}`;
+
+const formatQuizFeedback = (result, card) => {
+  const note = result.explanation ? ` ${result.explanation}` : '';
+  if (result.correct && result.typo) return `Correct, but watch the spelling: **${card.term}**`;
+  if (result.correct) return `Correct!${note}`;
+  if (result.verdict === 'partial') return `Partly right.${note} The answer is **${card.term}**.`;
+  return `Not quite.${note} The answer is **${card.term}**.`;
+};
+
+/**
+ * LIBRARY SEARCH
+ * Every word of the query must appear somewhere in the set (title, description or a card).
+ * Words of four or more letters also match with small typos. Matches are returned as
+ * [start, end) ranges into the original text so they can be highlighted.
+ */
+const foldForSearch = (text) => text.split('').map(ch => ch.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase()[0] ?? ch).join('');
+
+const tokenizeQuery = (query) => foldForSearch(query).split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+
+// Returns { ranges, score } for one query token in one piece of text; score 0 means no match
+const matchToken = (text, token) => {
+  const folded = foldForSearch(text || '');
+  const ranges = [];
+  let idx = folded.indexOf(token);
+  while (idx !== -1) {
+    ranges.push([idx, idx + token.length]);
+    idx = folded.indexOf(token, idx + token.length);
+  }
+  if (ranges.length > 0) return { ranges, score: 2 };
+
+  if (token.length < 4) return { ranges, score: 0 };
+  for (const word of folded.matchAll(/[\p{L}\p{N}]+/gu)) {
+    const distance = Math.min(editDistance(token, word[0]), editDistance(token, word[0].slice(0, token.length)));
+    if (distance <= allowedTypos(token.length)) ranges.push([word.index, word.index + word[0].length]);
+  }
+  return { ranges, score: ranges.length > 0 ? 1 : 0 };
+};
+
+const FIELD_WEIGHTS = { title: 6, description: 3, term: 2, def: 1 };
+
+// Returns null when the set doesn't match, otherwise { score, title, description, cards: [{ card, term, def }] }
+const searchSet = (set, tokens) => {
+  const result = { score: 0, title: [], description: [], cards: [] };
+  const cardHits = new Map();
+
+  for (const token of tokens) {
+    let tokenScore = 0;
+    ['title', 'description'].forEach(field => {
+      const { ranges, score } = matchToken(set[field], token);
+      result[field].push(...ranges);
+      tokenScore += score * FIELD_WEIGHTS[field];
+    });
+    set.cards.forEach(card => {
+      ['term', 'def'].forEach(field => {
+        const { ranges, score } = matchToken(card[field], token);
+        if (!score) return;
+        const hit = cardHits.get(card.id) || { card, term: [], def: [] };
+        hit[field].push(...ranges);
+        cardHits.set(card.id, hit);
+        tokenScore += score * FIELD_WEIGHTS[field];
+      });
+    });
+    if (tokenScore === 0) return null;
+    result.score += tokenScore;
+  }
+
+  result.cards = [...cardHits.values()];
+  return result;
+};
+
+const LIBRARY_SORTS = [
+  { id: 'relevance', label: 'Best match' },
+  { id: 'recent', label: 'Recently studied' },
+  { id: 'created', label: 'Newest' },
+  { id: 'title', label: 'Title (A–Z)' },
+  { id: 'cards', label: 'Most cards' }
+];
+
+const LIBRARY_FILTERS = [
+  { id: 'all', label: 'All sets' },
+  { id: 'due', label: 'Due for review' },
+  { id: 'unstudied', label: 'Not studied yet' }
+];
+
+const compareSets = (sortBy) => {
+  switch (sortBy) {
+    case 'created': return (a, b) => (b.createdAt ?? 0) - (a.createdAt ?? 0);
+    case 'title': return (a, b) => a.title.localeCompare(b.title, undefined, { sensitivity: 'base' });
+    case 'cards': return (a, b) => b.cards.length - a.cards.length;
+    default: return (a, b) => (b.lastStudiedAt ?? 0) - (a.lastStudiedAt ?? 0) || (b.createdAt ?? 0) - (a.createdAt ?? 0);
+  }
+};
+
+/**
+ * PRACTICE TESTS
+ * A test is a list of questions of type 'mc', 'tf', 'written' or 'matching'.
+ * Cards are dealt to sections without repeats until the set runs out.
+ */
+const TEST_SECTIONS = [
+  { type: 'mc', label: 'Multiple choice' },
+  { type: 'tf', label: 'True / False' },
+  { type: 'written', label: 'Written' },
+  { type: 'matching', label: 'Matching' }
+];
+
+const generateTest = (cards, counts) => {
+  let pool = [];
+  const deal = () => {
+    if (pool.length === 0) pool = shuffleArray(cards);
+    return pool.pop();
+  };
+
+  const questions = [];
+  for (let i = 0; i < (counts.mc || 0); i++) {
+    const card = deal();
+    questions.push({ id: generateId(), type: 'mc', card, options: shuffleArray([card, ...pickDistractors(card, cards)]) });
+  }
+  for (let i = 0; i < (counts.tf || 0); i++) {
+    const card = deal();
+    const [wrong] = Math.random() < 0.5 ? pickDistractors(card, cards, 1, 'def') : [];
+    questions.push({ id: generateId(), type: 'tf', card, shownDef: wrong ? wrong.def : card.def, isTrue: !wrong });
+  }
+  for (let i = 0; i < (counts.written || 0); i++) {
+    questions.push({ id: generateId(), type: 'written', card: deal() });
+  }
+  if (counts.matching > 1) {
+    const matchCards = [];
+    while (matchCards.length < Math.min(counts.matching, cards.length)) {
+      const card = deal();
+      if (!matchCards.some(c => c.id === card.id)) matchCards.push(card);
+    }
+    const items = toPairItems(matchCards);
+    questions.push({
+      id: generateId(),
+      type: 'matching',
+      terms: items.filter(i => i.type === 'term'),
+      defs: shuffleArray(items.filter(i => i.type === 'def'))
+    });
+  }
+  return questions;
+};
+
+// answers: { [questionId]: cardId | boolean | string | { [termItemId]: defItemId } }
+// grades: { [questionId]: grade } for written answers already graded by gradeAnswerWithAI; others are matched
+const scoreTest = (questions, answers, grades = {}) => {
+  const results = []; // { cardId, correct } per answer, used for study statistics
+  const mistakes = [];
+
+  questions.forEach(q => {
+    const answer = answers[q.id];
+    if (q.type === 'matching') {
+      q.terms.forEach(term => {
+        const chosen = q.defs.find(d => d.id === answer?.[term.id]);
+        const isRight = chosen?.parentId === term.parentId;
+        results.push({ cardId: term.parentId, correct: isRight });
+        if (!isRight) {
+          mistakes.push({ type: q.type, prompt: term.content, given: chosen?.content, expected: q.defs.find(d => d.parentId === term.parentId).content });
+        }
+      });
+      return;
+    }
+
+    let isRight = false;
+    if (q.type === 'mc') {
+      isRight = answer === q.card.id;
+      if (!isRight) mistakes.push({ type: q.type, prompt: q.card.def, given: q.options.find(o => o.id === answer)?.term, expected: q.card.term });
+    } else if (q.type === 'tf') {
+      isRight = answer === q.isTrue;
+      if (!isRight) mistakes.push({ type: q.type, prompt: `${q.card.term} — ${q.shownDef}`, given: answer === undefined ? undefined : answer ? 'True' : 'False', expected: q.isTrue ? 'True' : `False (${q.card.def})` });
+    } else if (q.type === 'written') {
+      const grade = grades[q.id] || gradeAnswerOffline(answer, q.card.term);
+      isRight = grade.correct;
+      if (!isRight) mistakes.push({ type: q.type, prompt: q.card.def, given: answer, expected: q.card.term, note: grade.explanation });
+    }
+    results.push({ cardId: q.card.id, correct: isRight });
+  });
+
+  return { correct: results.filter(r => r.correct).length, total: results.length, mistakes, results };
+};
+
+/**
+ * RICH CARD CONTENT
+ * Each side of a card is Markdown with $inline$ and $$block$$ LaTeX, plus an optional image stored
+ * on the card as a data URL (`termImage` / `defImage`).
+ */
+const CARD_SIDES = [
+  { field: 'term', image: 'termImage', label: 'Term' },
+  { field: 'def', image: 'defImage', label: 'Definition' }
+];
+
+const CARD_IMAGE_MAX_SIZE = 1024;
+
+const MARKDOWN_TOOLS = [
+  { id: 'bold', icon: Bold, title: 'Bold', before: '**', after: '**', placeholder: 'bold text' },
+  { id: 'italic', icon: Italic, title: 'Italic', before: '_', after: '_', placeholder: 'italic text' },
+  { id: 'code', icon: Code, title: 'Code', before: '`', after: '`', placeholder: 'code' },
+  { id: 'list', icon: List, title: 'List', linePrefix: '- ', placeholder: 'item' },
+  { id: 'math', icon: Sigma, title: 'Inline math', before: '$', after: '$', placeholder: 'x^2' },
+  { id: 'math-block', icon: SquareFunction, title: 'Math block', before: '\n$$\n', after: '\n$$\n', placeholder: '\\int_0^1 x\\,dx' }
+];
+
+const hasCardContent = (card) => !!(card.term.trim() || card.def.trim() || card.termImage || card.defImage);
+
+// Applies a toolbar action to the selected text; returns the new value and the range to select afterwards
+const applyMarkdownTool = (value, start, end, tool) => {
+  if (tool.linePrefix) {
+    const lineStart = value.lastIndexOf('\n', start - 1) + 1;
+    const block = value.slice(lineStart, end) || tool.placeholder;
+    const prefixed = block.split('\n').map(line => tool.linePrefix + line).join('\n');
+    return { value: value.slice(0, lineStart) + prefixed + value.slice(end), start: lineStart, end: lineStart + prefixed.length };
+  }
+  const selected = value.slice(start, end) || tool.placeholder;
+  const selectionStart = start + tool.before.length;
+  return {
+    value: value.slice(0, start) + tool.before + selected + tool.after + value.slice(end),
+    start: selectionStart,
+    end: selectionStart + selected.length
+  };
+};
+
+// Reads an image as a data URL, scaled down so large photos don't bloat the library
+const readImageFile = (file) => new Promise((resolve, reject) => {
+  if (!file.type.startsWith('image/')) return reject(new Error('Please choose an image file.'));
+  const url = URL.createObjectURL(file);
+  const img = new Image();
+  img.onload = () => {
+    const scale = Math.min(1, CARD_IMAGE_MAX_SIZE / Math.max(img.width, img.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(img.width * scale);
+    canvas.height = Math.round(img.height * scale);
+    canvas.getContext('2d').drawImage(img, 0, 0, canvas.width, canvas.height);
+    URL.revokeObjectURL(url);
+    resolve(canvas.toDataURL(file.type === 'image/png' ? 'image/png' : 'image/jpeg', 0.85));
+  };
+  img.onerror = () => {
+    URL.revokeObjectURL(url);
+    reject(new Error("This image couldn't be read."));
+  };
+  img.src = url;
+});
+
+/**
+ * SPEECH
+ * Cards are read aloud through a speech layer, passed to the App so tests can swap in a stub:
+ *   isSupported                             — false hides every speaker button
+ *   getVoices(): [{ voiceURI, name, lang }]
+ *   onVoicesChanged(callback): unsubscribe  — browsers load their voices asynchronously
+ *   speak(text, { lang, voiceURI })         — stops whatever is already playing
+ *   cancel()
+ * Each set may carry `speech`: { term: { lang, voiceURI }, def: { lang, voiceURI }, autoRead }.
+ */
+const SPEECH_LANGUAGES = [
+  { code: '', label: 'Browser default' },
+  { code: 'en-US', label: 'English (US)' },
+  { code: 'en-GB', label: 'English (UK)' },
+  { code: 'es-ES', label: 'Spanish (Spain)' },
+  { code: 'es-MX', label: 'Spanish (Mexico)' },
+  { code: 'fr-FR', label: 'French' },
+  { code: 'de-DE', label: 'German' },
+  { code: 'it-IT', label: 'Italian' },
+  { code: 'pt-BR', label: 'Portuguese (Brazil)' },
+  { code: 'nl-NL', label: 'Dutch' },
+  { code: 'ru-RU', label: 'Russian' },
+  { code: 'ja-JP', label: 'Japanese' },
+  { code: 'ko-KR', label: 'Korean' },
+  { code: 'zh-CN', label: 'Chinese (Mandarin)' },
+  { code: 'ar-SA', label: 'Arabic' },
+  { code: 'hi-IN', label: 'Hindi' }
+];
+
+const DEFAULT_VOICE = { lang: '', voiceURI: '' };
+
+const getSpeechSettings = (set) => {
+  const speech = isPlainObject(set?.speech) ? set.speech : {};
+  return {
+    term: { ...DEFAULT_VOICE, ...(isPlainObject(speech.term) ? speech.term : {}) },
+    def: { ...DEFAULT_VOICE, ...(isPlainObject(speech.def) ? speech.def : {}) },
+    autoRead: speech.autoRead === true
+  };
+};
+
+// Voices whose language matches the chosen one (e.g. 'es-ES' also offers 'es-MX' voices)
+const voicesForLanguage = (voices, lang) => (lang ? voices.filter(v => v.lang.split(/[-_]/)[0] === lang.split('-')[0]) : voices);
+
+// Reads the words, not the Markdown and LaTeX markup around them
+const toSpeechText = (text) => text
+  .replace(/!?\[([^\]]*)\]\([^)]*\)/g, '$1')
+  .replace(/\$\$?([^$]*)\$\$?/g, '$1')
+  .replace(/^\s*(?:[-+*]|\d+\.)\s+/gm, '')
+  .replace(/[*_`#>~\\]/g, '')
+  .trim();
+
+const createBrowserSpeech = (synth = window.speechSynthesis) => ({
+  isSupported: true,
+  getVoices: () => synth.getVoices().map(v => ({ voiceURI: v.voiceURI, name: v.name, lang: v.lang })),
+  onVoicesChanged: (callback) => {
+    synth.addEventListener('voiceschanged', callback);
+    return () => synth.removeEventListener('voiceschanged', callback);
+  },
+  speak: (text, { lang = '', voiceURI = '' } = {}) => {
+    synth.cancel();
+    const utterance = new SpeechSynthesisUtterance(text);
+    const voices = synth.getVoices();
+    const voice = voices.find(v => v.voiceURI === voiceURI) || (lang && voices.find(v => v.lang.replace('_', '-') === lang));
+    if (voice) utterance.voice = voice;
+    if (voice || lang) utterance.lang = voice ? voice.lang.replace('_', '-') : lang;
+    synth.speak(utterance);
+  },
+  cancel: () => synth.cancel()
+});
+
+const createSilentSpeech = () => ({
+  isSupported: false,
+  getVoices: () => [],
+  onVoicesChanged: () => () => {},
+  speak: () => {},
+  cancel: () => {}
+});
+
+const createSpeech = () => (typeof window !== 'undefined' && 'speechSynthesis' in window ? createBrowserSpeech() : createSilentSpeech());
+
+const defaultSpeech = createSpeech();
+
+const useVoices = (speech) => {
+  const [voices, setVoices] = useState(() => speech?.getVoices() ?? []);
+  useEffect(() => speech?.onVoicesChanged(() => setVoices(speech.getVoices())), [speech]);
+  return voices;
+};
+
+/**
+ * IMPORT
+ * Cards are read from delimited text (CSV, TSV, "term - definition" lists, etc.).
+ * Double-quoted fields may contain either separator; "" inside quotes is a literal quote.
+ */
+const TERM_SEPARATORS = [
+  { id: 'tab', label: 'Tab', value: '\t' },
+  { id: 'comma', label: 'Comma', value: ',' },
+  { id: 'dash', label: 'Dash ( - )', value: ' - ' },
+  { id: 'custom', label: 'Custom' }
+];
+
+const CARD_SEPARATORS = [
+  { id: 'newline', label: 'New line', value: '\n' },
+  { id: 'semicolon', label: 'Semicolon', value: ';' },
+  { id: 'blank', label: 'Blank line', value: '\n\n' },
+  { id: 'custom', label: 'Custom' }
+];
+
+const splitDelimited = (text, fieldSep, rowSep) => {
+  const rows = [];
+  let row = [];
+  let field = '';
+  let i = 0;
+  const input = text.replace(/\r\n?/g, '\n');
+
+  while (i < input.length) {
+    if (field === '' && input[i] === '"') {
+      // Quoted field: read up to the closing quote
+      i++;
+      while (i < input.length) {
+        if (input[i] === '"' && input[i + 1] === '"') { field += '"'; i += 2; }
+        else if (input[i] === '"') { i++; break; }
+        else field += input[i++];
+      }
+    } else if (rowSep && input.startsWith(rowSep, i)) {
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+      i += rowSep.length;
+    } else if (fieldSep && input.startsWith(fieldSep, i)) {
+      row.push(field);
+      field = '';
+      i += fieldSep.length;
+    } else {
+      field += input[i++];
+    }
+  }
+  row.push(field);
+  rows.push(row);
+  return rows;
+};
+
+const parseCardText = (text, termSep, cardSep) => {
+  if (!text.trim() || !termSep || !cardSep) return [];
+  return splitDelimited(text, termSep, cardSep)
+    .map(([term = '', ...rest]) => ({ term: term.trim(), def: rest.join(termSep).trim() }))
+    .filter(c => c.term || c.def)
+    .map(c => ({ ...c, id: generateId() }));
+};
+
+/**
+ * EXPORT
+ * QuizDeck JSON format (version 1):
+ * {
+ *   "format": "quizdeck-set",
+ *   "version": 1,
+ *   "exportedAt": "<ISO 8601 timestamp>",
+ *   "set": {
+ *     "id": "...", "title": "...", "description": "...",
+ *     "cards": [{ "id": "...", "term": "...", "def": "...", "review": { ...optional SM-2 state } }]
+ *   }
+ * }
+ * Every field on the set and its cards is kept as-is, so an export can be restored without loss.
+ */
+const QUIZDECK_SET_FORMAT = 'quizdeck-set';
+const QUIZDECK_SET_VERSION = 1;
+
+const EXPORT_FIELD_SEPARATORS = [
+  { id: 'comma', label: 'Comma', value: ',', anki: 'Comma' },
+  { id: 'tab', label: 'Tab', value: '\t', anki: 'Tab' },
+  { id: 'semicolon', label: 'Semicolon', value: ';', anki: 'Semicolon' }
+];
+
+const EXPORT_COLUMNS = [
+  { id: 'term', label: 'Term' },
+  { id: 'def', label: 'Definition' }
+];
+
+const escapeDelimited = (value, fieldSep) => {
+  const text = value == null ? '' : String(value);
+  return text.includes(fieldSep) || /["\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toDelimitedText = (cards, { columns, fieldSep, header }) => {
+  const rows = cards.map(card => columns.map(col => escapeDelimited(card[col], fieldSep)).join(fieldSep));
+  if (header) rows.unshift(columns.map(col => EXPORT_COLUMNS.find(c => c.id === col).label).join(fieldSep));
+  return rows.join('\n');
+};
+
+const omitKeys = (obj, keys) => Object.fromEntries(Object.entries(obj).filter(([k]) => !keys.includes(k)));
+
+const toQuizDeckJSON = (set, { includeProgress }) => JSON.stringify({
+  format: QUIZDECK_SET_FORMAT,
+  version: QUIZDECK_SET_VERSION,
+  exportedAt: new Date().toISOString(),
+  set: includeProgress
+    ? set
+    : { ...set, cards: set.cards.map(card => omitKeys(card, ['review'])) }
+}, null, 2);
+
+// Plain-text notes with Anki's file headers (File > Import, Anki 2.1.55+)
+const toAnkiText = (set, { separator, swap }) => {
+  const columns = swap ? ['def', 'term'] : ['term', 'def'];
+  return [
+    `#separator:${separator.anki}`,
+    '#html:false',
+    '#notetype:Basic',
+    `#deck:${set.title.replace(/[\r\n]/g, ' ')}`,
+    '#columns:Front' + separator.value + 'Back',
+    toDelimitedText(set.cards, { columns, fieldSep: separator.value, header: false })
+  ].join('\n');
+};
+
+const toFileName = (title, extension) => `${(title || 'study-set').trim().replace(/[^\w\- ]+/g, '').replace(/\s+/g, '-').toLowerCase() || 'study-set'}.${extension}`;
+
+const downloadFile = (content, fileName, mimeType) => {
+  const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  // Revoking straight after click() can cancel the download in some browsers
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+};
+
+// Mock Initial Data
+const INITIAL_SETS = [
+  {
+    id: '1',
+    title: 'Biology 101: The Cell',
+    description: 'Basic structure and function of cells',
+    cards: [
+      { id: 'c1', term: 'Mitochondria', def: 'The powerhouse of the cell; generates ATP.' },
+      { id: 'c2', term: 'Nucleus', def: 'Contains the cell\'s genetic material (DNA).' },
+      { id: 'c3', term: 'Ribosome', def: ' The site of protein synthesis.' },
+      { id: 'c4', term: 'Mitosis', def: 'Process of cell division resulting in two identical daughter cells.' },
+      { id: 'c5', term: 'Osmosis', def: 'Movement of water molecules through a semi-permeable membrane.' },
+      { id: 'c6', term: 'Chloroplast', def: 'Organelle where photosynthesis occurs in plant cells.' }
+    ]
+  }
+];
+
+/**
+ * LIBRARY SCHEMA
+ * A library is { version, sets, folders }. Folders are { id, name, parentId } and nest through
+ * parentId; a set points at its folder with folderId (null for the top level) and carries free-form tags. Older data is upgraded one version at a time
+ * through LIBRARY_MIGRATIONS, then every set and card is checked and repaired where possible.
+ */
+// Where the whole library lived before IndexedDB; still read once to migrate it
+const LEGACY_STORAGE_KEY = 'quizdeck_sets';
+const LIBRARY_SCHEMA_VERSION = 2;
+const BACKUP_FORMAT = 'quizdeck-backup';
+
+// Each entry upgrades data saved at version N to version N + 1
+const LIBRARY_MIGRATIONS = {
+  // v0: a bare array of sets
+  0: (data) => ({ version: 1, sets: data }),
+  // v1: no folders or tags
+  1: (data) => ({ ...data, version: 2, folders: [] })
+};
+
+const getSchemaVersion = (data) => {
+  if (Array.isArray(data)) return 0;
+  return Number.isInteger(data?.version) ? data.version : null;
+};
+
+const migrateLibrary = (data) => {
+  let current = data;
+  let version = getSchemaVersion(current);
+  if (version === null) throw new Error("This doesn't look like a QuizDeck library.");
+  if (version > LIBRARY_SCHEMA_VERSION) {
+    throw new Error(`This data was saved by a newer version of the app (schema v${version}).`);
+  }
+  while (version < LIBRARY_SCHEMA_VERSION) {
+    current = LIBRARY_MIGRATIONS[version](current);
+    version = current.version;
+  }
+  return current;
+};
+
+const isPlainObject = (value) => !!value && typeof value === 'object' && !Array.isArray(value);
+
+const normalizeCard = (card) => {
+  if (!isPlainObject(card)) return null;
+  const normalized = {
+    ...card,
+    id: typeof card.id === 'string' && card.id ? card.id : generateId(),
+    term: card.term == null ? '' : String(card.term),
+    def: card.def == null ? '' : String(card.def)
+  };
+  CARD_SIDES.forEach(side => {
+    if (side.image in normalized && typeof normalized[side.image] !== 'string') delete normalized[side.image];
+  });
+  // A malformed review state is dropped so the card simply becomes new again
+  if ('review' in normalized && !(isPlainObject(card.review) && Number.isFinite(card.review.due))) {
+    delete normalized.review;
+  }
+  const isTextList = (list) => Array.isArray(list) && list.every(item => typeof item === 'string');
+  if ('distractors' in normalized && !(isPlainObject(card.distractors) && typeof card.distractors.key === 'string' && isTextList(card.distractors.terms) && isTextList(card.distractors.defs))) {
+    delete normalized.distractors;
+  }
+  return normalized;
+};
+
+const normalizeTags = (tags) => [...new Set(tags.map(tag => String(tag).trim().toLowerCase()).filter(Boolean))];
+
+const normalizeSet = (set) => {
+  if (!isPlainObject(set) || !Array.isArray(set.cards)) return null;
+  return {
+    ...set,
+    id: typeof set.id === 'string' && set.id ? set.id : generateId(),
+    title: set.title == null || set.title === '' ? 'Untitled set' : String(set.title),
+    description: set.description == null ? '' : String(set.description),
+    folderId: typeof set.folderId === 'string' && set.folderId ? set.folderId : null,
+    tags: Array.isArray(set.tags) ? normalizeTags(set.tags) : [],
+    cards: set.cards.map(normalizeCard).filter(Boolean)
+  };
+};
+
+const normalizeFolder = (folder) => {
+  if (!isPlainObject(folder) || typeof folder.id !== 'string' || !folder.id) return null;
+  return {
+    ...folder,
+    name: folder.name == null || folder.name === '' ? 'Untitled folder' : String(folder.name),
+    parentId: typeof folder.parentId === 'string' && folder.parentId ? folder.parentId : null
+  };
+};
+
+// Study sessions travel in full backups; a session that can't be counted in the statistics is dropped
+const normalizeSession = (session) => {
+  if (!isPlainObject(session) || typeof session.id !== 'string' || !session.id) return null;
+  if (!Number.isFinite(session.startedAt) || !Number.isFinite(session.duration) || !Array.isArray(session.results)) return null;
+  return { ...session, results: session.results.filter(r => isPlainObject(r) && typeof r.correct === 'boolean') };
+};
+
+// Detaches folders whose parent is missing or that would form a cycle, and sets whose folder is missing
+const repairFolderTree = (sets, folders) => {
+  const byId = new Map(folders.map(f => [f.id, f]));
+  const repairedFolders = folders.map(folder => {
+    const seen = new Set([folder.id]);
+    let parentId = folder.parentId;
+    while (parentId) {
+      if (seen.has(parentId) || !byId.has(parentId)) return { ...folder, parentId: null };
+      seen.add(parentId);
+      parentId = byId.get(parentId).parentId;
+    }
+    return folder;
+  });
+  const repairedSets = sets.map(set => (set.folderId && !byId.has(set.folderId) ? { ...set, folderId: null } : set));
+  return { sets: repairedSets, folders: repairedFolders };
+};
+
+// Returns the usable sets and folders, and how many sets had to be skipped
+const readLibrary = (data) => {
+  const library = migrateLibrary(data);
+  if (!Array.isArray(library.sets)) throw new Error('The library has no list of sets.');
+  const sets = library.sets.map(normalizeSet);
+  const folders = (Array.isArray(library.folders) ? library.folders : []).map(normalizeFolder).filter(Boolean);
+  return { ...repairFolderTree(sets.filter(Boolean), folders), skipped: sets.filter(s => !s).length };
+};
+
+const serializeLibrary = (sets, folders) => ({ version: LIBRARY_SCHEMA_VERSION, sets, folders });
+
+// Keeps a copy of data we couldn't read so that saving the recovered library never destroys it
+const stashUnreadableLibrary = (raw) => {
+  const key = `${LEGACY_STORAGE_KEY}_unreadable_${Date.now()}`;
+  try {
+    localStorage.setItem(key, raw);
+    return key;
+  } catch (error) {
+    console.error("Could not keep a copy of the unreadable library:", error);
+    return null;
+  }
+};
+
+const loadLegacyLibrary = (raw) => {
+  if (!raw) return { sets: INITIAL_SETS, folders: [], recovery: null };
+  try {
+    const { sets, folders, skipped } = readLibrary(JSON.parse(raw));
+    if (!skipped) return { sets, folders, recovery: null };
+    return {
+      sets,
+      folders,
+      recovery: { message: `${skipped} ${skipped === 1 ? 'set in your saved library was' : 'sets in your saved library were'} unreadable and skipped.`, stashKey: stashUnreadableLibrary(raw) }
+    };
+  } catch (error) {
+    console.error("Library Load Error:", error);
+    return {
+      sets: [],
+      folders: [],
+      recovery: { message: `Your saved library couldn't be read: ${error.message}`, stashKey: stashUnreadableLibrary(raw) }
+    };
+  }
+};
+
+// Accepts a full backup, a single-set export or raw library data; only full backups carry study sessions
+const parseBackup = (text) => {
+  let data;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error("This file isn't valid JSON.");
+  }
+  if (data?.format === QUIZDECK_SET_FORMAT) {
+    return { ...readLibrary({ version: data.version, sets: [data.set] }), sessions: [] };
+  }
+  const sessions = data?.format === BACKUP_FORMAT && Array.isArray(data.sessions) ? data.sessions.map(normalizeSession).filter(Boolean) : [];
+  return { ...readLibrary(data), sessions };
+};
+
+const createBackup = (sets, folders, sessions) => JSON.stringify({
+  format: BACKUP_FORMAT,
+  exportedAt: new Date().toISOString(),
+  ...serializeLibrary(sets, folders),
+  sessions
+}, null, 2);
+
+// Adds incoming sets to the library; an id clash with different content is kept as a copy
+const mergeLibraries = (existing, incoming) => {
+  const merged = [...existing];
+  incoming.forEach(set => {
+    const match = existing.find(s => s.id === set.id);
+    if (!match) merged.push(set);
+    else if (JSON.stringify(match) !== JSON.stringify(set)) {
+      merged.push({ ...set, id: generateId(), cards: set.cards.map(card => ({ ...card, id: generateId() })) });
+    }
+  });
+  return merged;
+};
+
+const mergeFolders = (existing, incoming) => [...existing, ...incoming.filter(f => !existing.some(e => e.id === f.id))];
+
+// Sessions already in the history are skipped, so restoring the same backup twice doesn't count them twice
+const mergeSessions = (existing, incoming) => {
+  const known = new Set(existing.map(s => s.id));
+  return [...existing, ...incoming.filter(s => !known.has(s.id))].sort((a, b) => a.startedAt - b.startedAt);
+};
+
+/**
+ * LIBRARY STORAGE
+ * Sets and cards are stored as separate records so an edit only rewrites what changed.
+ * A backend implements:
+ *   readAll(): Promise<{ sets, cards, meta }>  — set records, card records and a meta object
+ *   write(changes): Promise<void>              — changes as produced by diffLibrary
+ *   readSessions(): Promise<session[]>         — study history, oldest first (see STUDY STATISTICS)
+ *   addSession(session): Promise<void>
+ *   readChat(setId): Promise<message[]>        — the tutor conversation kept for a set (see ChatWidget)
+ *   saveChat(setId, messages): Promise<void>   — deleting a set also deletes its chat
+ * Set records hold the set without its cards plus the ordered `cardIds`; card records carry their `setId`.
+ * Meta holds `schemaVersion`, the library's `setOrder`, its `folders` and whether localStorage has been `migrated`.
+ */
+const toSetRecord = (set) => ({ ...omitKeys(set, ['cards']), cardIds: set.cards.map(c => c.id) });
+
+const toCardRecord = (card, setId) => ({ ...card, setId });
+
+// Compares two versions of the library by reference, relying on state being updated immutably
+const diffLibrary = (prev, next) => {
+  const changes = { putSets: [], deleteSetIds: [], putCards: [], deleteCards: [], meta: null };
+  const prevById = new Map(prev.map(s => [s.id, s]));
+  const nextIds = new Set(next.map(s => s.id));
+
+  next.forEach(set => {
+    const old = prevById.get(set.id);
+    if (old === set) return;
+    const oldCards = new Map((old?.cards || []).map(c => [c.id, c]));
+    const newCardIds = new Set(set.cards.map(c => c.id));
+    set.cards.forEach(card => {
+      if (oldCards.get(card.id) !== card) changes.putCards.push(toCardRecord(card, set.id));
+    });
+    oldCards.forEach((card, id) => {
+      if (!newCardIds.has(id)) changes.deleteCards.push({ setId: set.id, id });
+    });
+    changes.putSets.push(toSetRecord(set));
+  });
+
+  prev.forEach(set => {
+    if (nextIds.has(set.id)) return;
+    changes.deleteSetIds.push(set.id);
+    set.cards.forEach(card => changes.deleteCards.push({ setId: set.id, id: card.id }));
+  });
+
+  const setOrder = next.map(s => s.id);
+  if (setOrder.join() !== prev.map(s => s.id).join()) changes.meta = { setOrder };
+  return changes;
+};
+
+const hasChanges = (changes) => changes.putSets.length > 0 || changes.deleteSetIds.length > 0
+  || changes.putCards.length > 0 || changes.deleteCards.length > 0 || !!changes.meta;
+
+const assembleLibrary = ({ sets, cards, meta }) => {
+  const cardsByKey = new Map(cards.map(c => [`${c.setId}/${c.id}`, c]));
+  const order = meta.setOrder || [];
+  const ordered = [...sets].sort((a, b) => {
+    const ia = order.indexOf(a.id);
+    const ib = order.indexOf(b.id);
+    return (ia === -1 ? Infinity : ia) - (ib === -1 ? Infinity : ib);
+  });
+  return {
+    version: meta.schemaVersion ?? LIBRARY_SCHEMA_VERSION,
+    folders: meta.folders || [],
+    sets: ordered.map(record => ({
+      ...omitKeys(record, ['cardIds']),
+      cards: (record.cardIds || [])
+        .map(id => cardsByKey.get(`${record.id}/${id}`))
+        .filter(Boolean)
+        .map(card => omitKeys(card, ['setId']))
+    }))
+  };
+};
+
+const requestToPromise = (request) => new Promise((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const createIndexedDBBackend = (dbName = 'quizdeck') => {
+  let dbPromise = null;
+  let writeQueue = Promise.resolve();
+
+  const openDB = () => {
+    if (!dbPromise) {
+      const request = indexedDB.open(dbName, 3);
+      request.onupgradeneeded = (event) => {
+        const db = request.result;
+        if (event.oldVersion < 1) {
+          db.createObjectStore('sets', { keyPath: 'id' });
+          db.createObjectStore('cards', { keyPath: ['setId', 'id'] });
+          db.createObjectStore('meta');
+        }
+        if (event.oldVersion < 2) {
+          db.createObjectStore('sessions', { keyPath: 'id' }).createIndex('startedAt', 'startedAt');
+        }
+        if (event.oldVersion < 3) {
+          db.createObjectStore('chats', { keyPath: 'setId' });
+        }
+      };
+      dbPromise = requestToPromise(request);
+    }
+    return dbPromise;
+  };
+
+  const readAll = async () => {
+    const db = await openDB();
+    const tx = db.transaction(['sets', 'cards', 'meta'], 'readonly');
+    const metaStore = tx.objectStore('meta');
+    const [sets, cards, metaKeys, metaValues] = await Promise.all([
+      requestToPromise(tx.objectStore('sets').getAll()),
+      requestToPromise(tx.objectStore('cards').getAll()),
+      requestToPromise(metaStore.getAllKeys()),
+      requestToPromise(metaStore.getAll())
+    ]);
+    return { sets, cards, meta: Object.fromEntries(metaKeys.map((key, i) => [key, metaValues[i]])) };
+  };
+
+  const write = (changes) => {
+    // Chain writes so they land in the order they were made
+    writeQueue = writeQueue.catch(() => {}).then(async () => {
+      const db = await openDB();
+      const tx = db.transaction(['sets', 'cards', 'meta', 'chats'], 'readwrite');
+      const setStore = tx.objectStore('sets');
+      const cardStore = tx.objectStore('cards');
+      changes.deleteCards.forEach(({ setId, id }) => cardStore.delete([setId, id]));
+      changes.deleteSetIds.forEach(id => {
+        setStore.delete(id);
+        tx.objectStore('chats').delete(id);
+      });
+      changes.putSets.forEach(record => setStore.put(record));
+      changes.putCards.forEach(record => cardStore.put(record));
+      Object.entries(changes.meta || {}).forEach(([key, value]) => tx.objectStore('meta').put(value, key));
+      await new Promise((resolve, reject) => {
+        tx.oncomplete = resolve;
+        tx.onerror = () => reject(tx.error);
+        tx.onabort = () => reject(tx.error || new Error('Save was aborted.'));
+      });
+    });
+    return writeQueue;
+  };
+
+  const readSessions = async () => {
+    const db = await openDB();
+    return requestToPromise(db.transaction('sessions', 'readonly').objectStore('sessions').index('startedAt').getAll());
+  };
+
+  const addSession = async (session) => {
+    const db = await openDB();
+    await requestToPromise(db.transaction('sessions', 'readwrite').objectStore('sessions').put(session));
+  };
+
+  const readChat = async (setId) => {
+    const db = await openDB();
+    const chat = await requestToPromise(db.transaction('chats', 'readonly').objectStore('chats').get(setId));
+    return chat?.messages || [];
+  };
+
+  const saveChat = async (setId, messages) => {
+    const db = await openDB();
+    await requestToPromise(db.transaction('chats', 'readwrite').objectStore('chats').put({ setId, messages }));
+  };
+
+  return { readAll, write, readSessions, addSession, readChat, saveChat };
+};
+
+// Keeps everything in memory; used when IndexedDB is unavailable and as a stand-in for tests
+const createMemoryBackend = () => {
+  const sets = new Map();
+  const cards = new Map();
+  const meta = new Map();
+  const sessions = [];
+  const chats = new Map();
+
+  return {
+    readAll: async () => ({
+      sets: structuredClone([...sets.values()]),
+      cards: structuredClone([...cards.values()]),
+      meta: structuredClone(Object.fromEntries(meta))
+    }),
+    write: async (changes) => {
+      changes.deleteCards.forEach(({ setId, id }) => cards.delete(`${setId}/${id}`));
+      changes.deleteSetIds.forEach(id => {
+        sets.delete(id);
+        chats.delete(id);
+      });
+      changes.putSets.forEach(record => sets.set(record.id, structuredClone(record)));
+      changes.putCards.forEach(record => cards.set(`${record.setId}/${record.id}`, structuredClone(record)));
+      Object.entries(changes.meta || {}).forEach(([key, value]) => meta.set(key, structuredClone(value)));
+    },
+    readSessions: async () => structuredClone(sessions),
+    addSession: async (session) => {
+      sessions.push(structuredClone(session));
+    },
+    readChat: async (setId) => structuredClone(chats.get(setId) || []),
+    saveChat: async (setId, messages) => {
+      chats.set(setId, structuredClone(messages));
+    }
+  };
+};
+
+const createLibraryBackend = () => (typeof indexedDB !== 'undefined' ? createIndexedDBBackend() : createMemoryBackend());
+
+// Loads the library from a backend, migrating the old localStorage blob on first run
+const openLibrary = async (backend) => {
+  const stored = await backend.readAll();
+
+  if (!stored.meta.migrated) {
+    // The localStorage copy is left in place as a fallback
+    const { sets, folders, recovery } = loadLegacyLibrary(localStorage.getItem(LEGACY_STORAGE_KEY));
+    const changes = diffLibrary([], sets);
+    await backend.write({ ...changes, meta: { ...changes.meta, folders, schemaVersion: LIBRARY_SCHEMA_VERSION, migrated: true } });
+    return { sets, folders, recovery };
+  }
+
+  try {
+    const library = assembleLibrary(stored);
+    const { sets, folders, skipped } = readLibrary(library);
+    if (library.version !== LIBRARY_SCHEMA_VERSION) {
+      // Rewrite every record in the current schema
+      const changes = diffLibrary([], sets);
+      await backend.write({ ...changes, meta: { ...changes.meta, folders, schemaVersion: LIBRARY_SCHEMA_VERSION } });
+    }
+    return {
+      sets,
+      folders,
+      recovery: skipped ? { message: `${skipped} ${skipped === 1 ? 'set in your saved library was' : 'sets in your saved library were'} unreadable and skipped.`, stashKey: stashUnreadableLibrary(JSON.stringify(library)) } : null
+    };
+  } catch (error) {
+    console.error("Library Load Error:", error);
+    return { sets: [], folders: [], recovery: { message: `Your saved library couldn't be read: ${error.message}`, stashKey: null } };
+  }
+};
+
+const libraryBackend = createLibraryBackend();
+
+/**
+ * FOLDERS
+ */
+const FOLDER_STUDY_MODES = [
+  { id: 'flashcards', icon: Layers, title: 'Flashcards' },
+  { id: 'learn', icon: Brain, title: 'Learn' },
+  { id: 'write', icon: PenLine, title: 'Write' },
+  { id: 'test', icon: ClipboardList, title: 'Test' }
+];
+
+// Ancestors of a folder from the top level down, including the folder itself
+const getFolderPath = (folders, folderId) => {
+  const path = [];
+  let folder = folders.find(f => f.id === folderId);
+  while (folder && !path.includes(folder)) {
+    path.unshift(folder);
+    folder = folders.find(f => f.id === folder.parentId);
+  }
+  return path;
+};
+
+// A folder's id plus the ids of every folder nested inside it
+const getFolderTreeIds = (folders, folderId) => {
+  const ids = new Set([folderId]);
+  let added = true;
+  while (added) {
+    added = false;
+    folders.forEach(f => {
+      if (f.parentId && ids.has(f.parentId) && !ids.has(f.id)) {
+        ids.add(f.id);
+        added = true;
+      }
+    });
+  }
+  return ids;
+};
+
+/**
+ * STUDY STATISTICS
+ * Every study mode saves a session when a round ends or the mode is left:
+ *   { id, mode, setId, setTitle, startedAt, duration (ms), results: [{ cardId, setId, correct }], matchTime? (s) }
+ * `setId` on the session is the studied deck (which may be a folder or the whole library); each result
+ * carries the set its card belongs to.
+ */
+const STUDY_MODE_LABELS = { flashcards: 'Flashcards', review: 'Review', learn: 'Learn', write: 'Write', match: 'Match', test: 'Test', tutor: 'Tutor quiz' };
+const STATS_DAYS = 14;
+
+const toDayKey = (time) => {
+  const date = new Date(time);
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+// Minutes studied and answers given on each of the last `days` days, oldest first
+const getDailyStats = (sessions, days = STATS_DAYS, now = Date.now()) => {
+  const byDay = new Map();
+  for (let i = days - 1; i >= 0; i--) {
+    const date = new Date(now);
+    date.setDate(date.getDate() - i);
+    byDay.set(toDayKey(date), { day: toDayKey(date), date, minutes: 0, answered: 0, correct: 0 });
+  }
+  sessions.forEach(session => {
+    const entry = byDay.get(toDayKey(session.startedAt));
+    if (!entry) return;
+    entry.minutes += session.duration / 60000;
+    entry.answered += session.results.length;
+    entry.correct += session.results.filter(r => r.correct).length;
+  });
+  return [...byDay.values()];
+};
+
+// A streak still counts until the end of the day after the last session
+const getStudyStreak = (sessions, now = Date.now()) => {
+  const days = new Set(sessions.map(s => toDayKey(s.startedAt)));
+  const date = new Date(now);
+  if (!days.has(toDayKey(date))) date.setDate(date.getDate() - 1);
+  let current = 0;
+  while (days.has(toDayKey(date))) {
+    current++;
+    date.setDate(date.getDate() - 1);
+  }
+
+  let longest = 0;
+  let run = 0;
+  let previous = null;
+  [...days].sort().forEach(key => {
+    const day = new Date(`${key}T00:00`);
+    run = previous && Math.round((day - previous) / DAY_MS) === 1 ? run + 1 : 1;
+    longest = Math.max(longest, run);
+    previous = day;
+  });
+  return { current, longest };
+};
+
+// Answer history per card, keyed `${setId}/${cardId}`: { setId, cardId, attempts, misses, lastCorrect }
+const getCardStats = (sessions) => {
+  const stats = new Map();
+  [...sessions].sort((a, b) => a.startedAt - b.startedAt).forEach(session => session.results.forEach(result => {
+    const key = `${result.setId}/${result.cardId}`;
+    const entry = stats.get(key) || { setId: result.setId, cardId: result.cardId, attempts: 0, misses: 0, lastCorrect: false };
+    entry.attempts++;
+    if (!result.correct) entry.misses++;
+    entry.lastCorrect = result.correct;
+    stats.set(key, entry);
+  }));
+  return stats;
+};
+
+// Cards with the lowest accuracy; cards since deleted are left out
+const getHardestCards = (cardStats, sets, limit = 10) => {
+  const setsById = new Map(sets.map(s => [s.id, s]));
+  return [...cardStats.values()]
+    .filter(entry => entry.misses > 0)
+    .map(entry => {
+      const set = setsById.get(entry.setId);
+      return { ...entry, set, card: set?.cards.find(c => c.id === entry.cardId), accuracy: 1 - entry.misses / entry.attempts };
+    })
+    .filter(entry => entry.card)
+    .sort((a, b) => a.accuracy - b.accuracy || b.misses - a.misses)
+    .slice(0, limit);
+};
+
+// Share of a set's cards whose most recent answer was right
+const getSetMastery = (set, cardStats) => (set.cards.length
+  ? set.cards.filter(c => cardStats.get(`${set.id}/${c.id}`)?.lastCorrect).length / set.cards.length
+  : 0);
+
+const formatDuration = (ms) => {
+  const minutes = Math.round(ms / 60000);
+  if (minutes < 1) return '<1 min';
+  if (minutes < 60) return `${minutes} min`;
+  return `${Math.floor(minutes / 60)} h ${minutes % 60} min`;
+};
+
+// Collects a mode's answers into a session. Call `record(cardId, correct)` per answer and `finish(extra)` when
+// a round ends; a round still running when the mode is left is saved too. Rounds without answers aren't saved.
+const useStudySession = (set, mode, onSessionEnd) => {
+  const sessionRef = useRef(null);
+  const startedAtRef = useRef(0);
+  const latestRef = useRef({ set, onSessionEnd });
+
+  useEffect(() => {
+    latestRef.current = { set, onSessionEnd };
+  });
+
+  const finish = useCallback((extra = {}) => {
+    const session = sessionRef.current;
+    sessionRef.current = null;
+    startedAtRef.current = Date.now();
+    if (session) latestRef.current.onSessionEnd?.({ ...session, ...extra, duration: Date.now() - session.startedAt });
+  }, []);
+
+  const record = useCallback((cardId, correct) => {
+    const deck = latestRef.current.set;
+    if (!sessionRef.current) {
+      sessionRef.current = { id: generateId(), mode, setId: deck.id, setTitle: deck.title, startedAt: startedAtRef.current || Date.now(), results: [] };
+    }
+    sessionRef.current.results.push({ cardId, setId: deck.cards.find(c => c.id === cardId)?.setId ?? deck.id, correct });
+  }, [mode]);
+
+  useEffect(() => {
+    startedAtRef.current = Date.now();
+    return () => finish();
+  }, [set?.id, mode, finish]);
+
+  return { record, finish };
+};
+
+/**
+ * ROUTING
+ * Hash routes: #/, #/create, #/magic, #/review, #/stats, #/sets/:id, #/sets/:id/<mode>,
+ * #/folders/:id and #/folders/:id/<mode> (views named 'folder-<mode>').
+ */
+const SET_ROUTES = ['flashcards', 'learn', 'write', 'match', 'test', 'review', 'edit'];
+const FOLDER_ROUTES = [...FOLDER_STUDY_MODES.map(m => m.id), 'review', 'create', 'magic'];
+
+const safeDecode = (part) => {
+  try {
+    return decodeURIComponent(part);
+  } catch {
+    return part;
+  }
+};
+
+const parseRoute = (hash) => {
+  const parts = hash.replace(/^#\/?/, '').split('/').filter(Boolean).map(safeDecode);
+  const [first, id, mode] = parts;
+  const home = { view: 'home', setId: null, folderId: null };
+  if (parts.length === 0) return home;
+  if (parts.length === 1 && first === 'create') return { ...home, view: 'create' };
+  if (parts.length === 1 && first === 'magic') return { ...home, view: 'ai-create' };
+  if (parts.length === 1 && first === 'review') return { ...home, view: 'review-all' };
+  if (parts.length === 1 && first === 'stats') return { ...home, view: 'stats' };
+  if (first === 'sets' && parts.length === 2) return { ...home, view: 'set', setId: id };
+  if (first === 'sets' && parts.length === 3 && SET_ROUTES.includes(mode)) return { ...home, view: mode, setId: id };
+  if (first === 'folders' && parts.length === 2) return { ...home, view: 'folder', folderId: id };
+  if (first === 'folders' && parts.length === 3 && FOLDER_ROUTES.includes(mode)) return { ...home, view: `folder-${mode}`, folderId: id };
+  return home;
+};
+
+// `id` is a set id for set views and a folder id for folder views
+const buildHash = (view, id = null) => {
+  switch (view) {
+    case 'home': return '#/';
+    case 'create': return '#/create';
+    case 'ai-create': return '#/magic';
+    case 'review-all': return '#/review';
+    case 'stats': return '#/stats';
+    case 'set': return `#/sets/${encodeURIComponent(id)}`;
+    case 'folder': return `#/folders/${encodeURIComponent(id)}`;
+    default:
+      if (view.startsWith('folder-')) return `#/folders/${encodeURIComponent(id)}/${view.slice('folder-'.length)}`;
+      return `#/sets/${encodeURIComponent(id)}/${view}`;
+  }
+};
+
+const useHashRoute = () => {
+  const [route, setRoute] = useState(() => parseRoute(window.location.hash));
+
+  useEffect(() => {
+    const handleHashChange = () => {
+      setRoute(parseRoute(window.location.hash));
+      window.scrollTo(0, 0);
+    };
+    window.addEventListener('hashchange', handleHashChange);
+    return () => window.removeEventListener('hashchange', handleHashChange);
+  }, []);
+
+  // `replace` swaps the current history entry, e.g. so Back doesn't return to a just-deleted set
+  const navigate = (view, id = null, { replace = false } = {}) => {
+    const hash = buildHash(view, id);
+    if (replace) {
+      window.history.replaceState(null, '', hash);
+      setRoute(parseRoute(hash));
+    } else {
+      window.location.hash = hash;
+    }
+  };
+
+  return [route, navigate];
+};
+
+/**
+ * SUB-COMPONENTS
+ */
+
+// 1. SETTINGS MODAL
+const SettingsModal = ({ isOpen, onClose, sets, folders, sessions, onRestore, darkMode }) => {
+  const [key, setKey] = useState(localStorage.getItem('quizdeck_api_key') || '');
+  const [aiSettings, setAISettings] = useState(getAISettings);
+  const [pendingRestore, setPendingRestore] = useState(null); // { sets, folders, sessions, skipped, fileName }
+  const [backupError, setBackupError] = useState(null);
+  const [, setUsageVersion] = useState(0); // bumped to re-read the usage ledger after resetting it
+  const backupInputRef = useRef(null);
+  
+  const provider = AI_PROVIDERS.find(p => p.id === aiSettings.provider) || AI_PROVIDERS[0];
+  const updateAISettings = (changes) => setAISettings(prev => ({ ...prev, ...changes }));
+
+  const handleSave = () => {
+    localStorage.setItem('quizdeck_api_key', key.trim());
+    saveAISettings({ ...aiSettings, model: aiSettings.model.trim(), baseUrl: aiSettings.baseUrl.trim(), openaiApiKey: aiSettings.openaiApiKey.trim() });
+    onClose();
+  };
+
+  const handleResetUsage = () => {
+    if (!window.confirm("Reset the AI usage history? Today's and this month's spending start again from zero, so budgets count from now.")) return;
+    localStorage.removeItem(AI_USAGE_KEY);
+    setUsageVersion(v => v + 1);
+  };
+
+  const handleClearCache = () => {
+    localStorage.removeItem(AI_CACHE_KEY);
+    setUsageVersion(v => v + 1);
+  };
+
+  const handleDownloadBackup = () => {
+    downloadFile(createBackup(sets, folders, sessions), `quizdeck-backup-${new Date().toISOString().slice(0, 10)}.json`, 'application/json');
+  };
+
+  const handleBackupFile = async (e) => {
+    const selectedFile = e.target.files[0];
+    e.target.value = '';
+    if (!selectedFile) return;
+    try {
+      setPendingRestore({ ...parseBackup(await selectedFile.text()), fileName: selectedFile.name });
+      setBackupError(null);
+    } catch (error) {
+      setPendingRestore(null);
+      setBackupError(error.message);
+    }
+  };
+
+  const handleRestore = (mode) => {
+    onRestore(pendingRestore, mode);
+    setPendingRestore(null);
+  };
+
+  if (!isOpen) return null;
+
+  const usageLedger = readAIUsage();
+  const usagePeriods = getAIUsagePeriods(usageLedger);
+  const monthModels = usagePeriods[1].models;
+  const budgets = getAIBudgets(aiSettings, usageLedger);
+  const cachedResults = readAICache().length;
+
+  return (
+    <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/30 backdrop-blur-sm p-4 animate-in fade-in duration-200">
+      <div className={`w-full max-w-md max-h-[90vh] overflow-y-auto rounded-3xl shadow-2xl p-8 animate-in zoom-in-95 duration-200 ${darkMode ? 'bg-[#1c1c1e] text-white border border-gray-800' : 'bg-white text-gray-900'}`}>
+        <div className="flex justify-between items-center mb-6">
+          <h2 className="text-xl font-bold flex items-center gap-2 tracking-tight">
+            <Settings className="text-indigo-500" /> Settings
+          </h2>
+          <button onClick={onClose} className={`p-2 rounded-full transition ${darkMode ? 'bg-gray-800 hover:bg-gray-700' : 'bg-gray-100 hover:bg-gray-200'}`}>
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="space-y-4 mb-8">
+          <div>
+            <label className={`block text-sm font-semibold mb-2 ml-1 ${darkMode ? 'text-gray-300' : 'text-gray-700'}`}>AI Provider</label>
+            <select
+              value={provider.id}
+              onChange={(e) => updateAISettings({ provider: e.target.value, model: '', baseUrl: '' })}
+              className={`w-full rounded-2xl px-4 py-3 text-sm outline-none cursor-pointer transition-all ${darkMode ? 'bg-[#2c2c2e]' : 'bg-gray-100'}`}
+            >
+              {AI_PROVIDERS.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+            </select>
+          </div>
+
+          {provider.id === 'proxy' && (
+            <div>
+              <input
+                type="text"
+                value={aiSettings.baseUrl}
+                onChange={(e) => updateAISettings({ baseUrl: e.target.value })}
+                placeholder={`Server URL (default: ${provider.defaultBaseUrl || 'this site'})`}
+                className={`w-full rounded-2xl px-4 py-3 text-sm outline-none transition-all ${darkMode ? 'bg-[#2c2c2e] focus:bg-[#3a3a3c]' : 'bg-gray-100 focus:bg-gray-50 focus:ring-2 focus:ring-indigo-500/20'}`}
+              />
+              <p className="text-xs text-gray-500 mt-3 ml-1">
+                The QuizDeck server keeps the Gemini key and picks the model, so no key is needed here. Run it with <code>npm run server</code>.
+              </p>
+            </div>
+          )}
+
+          {provider.id !== 'mock' && provider.id !== 'proxy' && (
+            <div className="space-y-3">
+              <input
+                type="text"
+                value={aiSettings.model}
+                onChange={(e) => updateAISettings({ model: e.target.value })}
+                placeholder={`Model (default: ${provider.defaultModel})`}
+                className={`w-full rounded-2xl px-4 py-3 text-sm outline-none transition-all ${darkMode ? 'bg-[#2c2c2e] focus:bg-[#3a3a3c]' : 'bg-gray-100 focus:bg-gray-50 focus:ring-2 focus:ring-indigo-500/20'}`}
+              />
+              {provider.defaultBaseUrl && (
+                <input
+                  type="text"
+                  value={aiSettings.baseUrl}
+                  onChange={(e) => updateAISettings({ baseUrl: e.target.value })}
+                  placeholder={`Base URL (default: ${provider.defaultBaseUrl})`}
+                  className={`w-full rounded-2xl px-4 py-3 text-sm outline-none transition-all ${darkMode ? 'bg-[#2c2c2e] focus:bg-[#3a3a3c]' : 'bg-gray-100 focus:bg-gray-50 focus:ring-2 focus:ring-indigo-500/20'}`}
+                />
+              )}
+            </div>
+          )}
+
+          {provider.id !== 'mock' && provider.id !== 'proxy' && (
+            <div>
+              <label className={`block text-sm font-semibold mb-2 ml-1 ${darkMode ? 'text-gray-300' : 'text-gray-700'}`}>{provider.id === 'gemini' ? 'Google Gemini API Key' : 'API Key'}</label>
+              <div className={`flex items-center rounded-2xl px-4 py-3 transition-all ${darkMode ? 'bg-[#2c2c2e] focus-within:bg-[#3a3a3c]' : 'bg-gray-100 focus-within:bg-gray-50 focus-within:ring-2 focus-within:ring-indigo-500/20'}`}>
+                <Key size={18} className="text-gray-400 mr-3" />
+                <input 
+                  type="password" 
+                  value={provider.id === 'gemini' ? key : aiSettings.openaiApiKey}
+                  onChange={(e) => (provider.id === 'gemini' ? setKey(e.target.value) : updateAISettings({ openaiApiKey: e.target.value }))}
+                  placeholder={provider.id === 'gemini' ? 'Enter your API Key' : 'Not needed for most local servers'}
+                  className="bg-transparent border-none outline-none flex-1 text-sm"
+                />
+              </div>
+              <p className="text-xs text-gray-500 mt-3 ml-1">
+                {provider.id === 'gemini'
+                  ? 'Required for AI features. Your key is stored locally in your browser.'
+                  : 'For a local model, point the base URL at your server, e.g. http://localhost:11434/v1 for Ollama or http://localhost:8080/v1 for llama.cpp. Your key is stored locally in your browser.'}
+              </p>
+            </div>
+          )}
+
+          <div>
+            <label className={`block text-sm font-semibold mb-2 ml-1 ${darkMode ? 'text-gray-300' : 'text-gray-700'}`}>AI Usage</label>
+            <div className={`rounded-2xl p-4 ${darkMode ? 'bg-[#2c2c2e]' : 'bg-gray-100'}`}>
+              <div className="grid grid-cols-3 gap-2 text-center">
+                {usagePeriods.map(period => (
+                  <div key={period.label}>
+                    <div className="text-xs text-gray-500">{period.label}</div>
+                    <div className="text-lg font-bold">{formatCost(period.cost)}</div>
+                    <div className="text-xs text-gray-500">{period.requests} request{period.requests === 1 ? '' : 's'}</div>
+                    <div className="text-xs text-gray-500" title="Input / output tokens">{period.inputTokens.toLocaleString()} / {period.outputTokens.toLocaleString()}</div>
+                  </div>
+                ))}
+              </div>
+              {monthModels.length > 0 && (
+                <ul className={`mt-3 pt-3 border-t space-y-1 text-xs ${darkMode ? 'border-gray-700' : 'border-gray-200'}`}>
+                  {monthModels.map(m => (
+                    <li key={m.model} className="flex justify-between gap-3">
+                      <span className="truncate">{m.model}</span>
+                      <span className="text-gray-500 shrink-0">
+                        {m.requests} this month · {m.priced ? formatCost(m.cost) : 'price unknown'}
+                      </span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+            <div className="flex gap-3 mt-3">
+              <input
+                type="number"
+                min="0"
+                step="0.5"
+                value={aiSettings.dailyBudget}
+                onChange={(e) => updateAISettings({ dailyBudget: e.target.value })}
+                placeholder="Daily budget ($)"
+                className={`w-full min-w-0 rounded-2xl px-4 py-3 text-sm outline-none transition-all ${darkMode ? 'bg-[#2c2c2e] focus:bg-[#3a3a3c]' : 'bg-gray-100 focus:bg-gray-50 focus:ring-2 focus:ring-indigo-500/20'}`}
+              />
+              <input
+                type="number"
+                min="0"
+                step="1"
+                value={aiSettings.monthlyBudget}
+                onChange={(e) => updateAISettings({ monthlyBudget: e.target.value })}
+                placeholder="Monthly budget ($)"
+                className={`w-full min-w-0 rounded-2xl px-4 py-3 text-sm outline-none transition-all ${darkMode ? 'bg-[#2c2c2e] focus:bg-[#3a3a3c]' : 'bg-gray-100 focus:bg-gray-50 focus:ring-2 focus:ring-indigo-500/20'}`}
+              />
+            </div>
+            <select
+              value={aiSettings.budgetMode}
+              onChange={(e) => updateAISettings({ budgetMode: e.target.value })}
+              className={`w-full mt-3 rounded-2xl px-4 py-3 text-sm outline-none cursor-pointer transition-all ${darkMode ? 'bg-[#2c2c2e]' : 'bg-gray-100'}`}
+            >
+              <option value="warn">When a budget is used up, ask before each AI request</option>
+              <option value="block">When a budget is used up, stop AI requests</option>
+            </select>
+            {budgets.map(budget => (
+              <div key={budget.period} className="mt-3 ml-1">
+                <div className="flex justify-between text-xs text-gray-500 mb-1">
+                  <span className="capitalize">{budget.period} budget</span>
+                  <span className={budget.spent >= budget.limit ? 'text-red-500 font-semibold' : ''}>{formatCost(budget.spent)} of {formatCost(budget.limit)}</span>
+                </div>
+                <div className={`h-1.5 rounded-full overflow-hidden ${darkMode ? 'bg-gray-700' : 'bg-gray-200'}`}>
+                  <div className={`h-full rounded-full ${budget.spent >= budget.limit ? 'bg-red-500' : 'bg-indigo-500'}`} style={{ width: `${Math.min(100, (budget.spent / budget.limit) * 100)}%` }} />
+                </div>
+              </div>
+            ))}
+            <p className="text-xs text-gray-500 mt-3 ml-1">
+              Costs are estimated from list prices and only cover requests from this browser; check your provider's billing page for the real amount. Generating from the same material again reuses the earlier result for free{usagePeriods[2].cached > 0 ? ` (${usagePeriods[2].cached} time${usagePeriods[2].cached === 1 ? '' : 's'} so far)` : ''}.
+            </p>
+            <div className="flex gap-3 mt-3">
+              <button
+                onClick={handleClearCache}
+                disabled={cachedResults === 0}
+                className={`flex-1 px-4 py-3 rounded-2xl text-sm font-semibold transition-all disabled:opacity-50 ${darkMode ? 'bg-[#2c2c2e] hover:bg-[#3a3a3c]' : 'bg-gray-100 hover:bg-gray-200'}`}
+              >
+                Clear cache ({cachedResults})
+              </button>
+              <button
+                onClick={handleResetUsage}
+                className={`flex-1 px-4 py-3 rounded-2xl text-sm font-semibold transition-all ${darkMode ? 'bg-[#2c2c2e] hover:bg-[#3a3a3c]' : 'bg-gray-100 hover:bg-gray-200'}`}
+              >
+                Reset usage
+              </button>
+            </div>
+          </div>
+
+          <div>
+            <label className={`block text-sm font-semibold mb-2 ml-1 ${darkMode ? 'text-gray-300' : 'text-gray-700'}`}>Library Backup</label>
+            <input type="file" accept=".json,application/json" className="hidden" ref={backupInputRef} onChange={handleBackupFile} />
+            <div className="flex gap-3">
+              <button
+                onClick={handleDownloadBackup}
+                className={`flex-1 px-4 py-3 rounded-2xl text-sm font-semibold flex items-center justify-center transition-all ${darkMode ? 'bg-[#2c2c2e] hover:bg-[#3a3a3c]' : 'bg-gray-100 hover:bg-gray-200'}`}
+              >
+                <Download size={16} className="mr-2" /> Download backup
+              </button>
+              <button
+                onClick={() => backupInputRef.current?.click()}
+                className={`flex-1 px-4 py-3 rounded-2xl text-sm font-semibold flex items-center justify-center transition-all ${darkMode ? 'bg-[#2c2c2e] hover:bg-[#3a3a3c]' : 'bg-gray-100 hover:bg-gray-200'}`}
+              >
+                <Upload size={16} className="mr-2" /> Restore from backup
+              </button>
+            </div>
+
+            {backupError && (
+              <p className="text-xs text-red-500 mt-3 ml-1 flex items-center"><AlertCircle size={14} className="mr-2 flex-shrink-0" /> {backupError}</p>
+            )}
+
+            {pendingRestore && (
+              <div className={`mt-3 p-4 rounded-2xl text-sm animate-in fade-in ${darkMode ? 'bg-[#2c2c2e]' : 'bg-indigo-50'}`}>
+                <p className="font-medium mb-3">
+                  <span className="font-bold">{pendingRestore.fileName}</span> contains {pendingRestore.sets.length} {pendingRestore.sets.length === 1 ? 'set' : 'sets'} ({pendingRestore.sets.reduce((n, set) => n + set.cards.length, 0)} cards){pendingRestore.sessions.length > 0 && ` and ${pendingRestore.sessions.length} study ${pendingRestore.sessions.length === 1 ? 'session' : 'sessions'}`}.
+                  {pendingRestore.skipped > 0 && ` ${pendingRestore.skipped} unreadable ${pendingRestore.skipped === 1 ? 'set was' : 'sets were'} skipped.`}
+                </p>
+                <div className="flex gap-2">
+                  <button onClick={() => handleRestore('merge')} className="px-4 py-2 bg-indigo-600 text-white font-semibold rounded-full hover:bg-indigo-700 transition-all">Merge</button>
+                  <button
+                    onClick={() => window.confirm('Replace your whole library with this backup? Sets not in the backup will be deleted.') && handleRestore('replace')}
+                    className="px-4 py-2 bg-red-500 text-white font-semibold rounded-full hover:bg-red-600 transition-all"
+                  >
+                    Replace
+                  </button>
+                  <button onClick={() => setPendingRestore(null)} className={`px-4 py-2 font-semibold rounded-full transition-all ${darkMode ? 'text-gray-300 hover:bg-[#3a3a3c]' : 'text-gray-600 hover:bg-white'}`}>Cancel</button>
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div className="flex justify-end">
+          <button 
+            onClick={handleSave}
+            className="px-6 py-3 bg-indigo-600 text-white font-semibold rounded-full hover:bg-indigo-700 active:scale-95 transition-all shadow-lg shadow-indigo-500/30"
+          >
+            Save Settings
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+// 2. CHAT WIDGET COMPONENT
+const NEW_CHAT = [{ role: 'ai', text: 'Hi! I can help you study this set. Ask me to quiz you or explain a term!' }];
+
+// Older messages are dropped from a saved conversation past this many
+const CHAT_SAVE_LIMIT = 100;
+
+const ChatWidget = ({ activeSet, storage, onAddCards, onUpdateCard, onEditSet, onSessionEnd, darkMode }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  // The conversation and the set it belongs to; null is the general chat outside any set, which isn't saved
+  const [chat, setChat] = useState({ setId: null, messages: NEW_CHAT });
+  const [input, setInput] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [streamingText, setStreamingText] = useState('');
+  const [quiz, setQuiz] = useState(null); // { setId, cardIds, index, correct }
+  const messagesEndRef = useRef(null);
+  const abortRef = useRef(null);
+  const chatSetId = activeSet?.id ?? null;
+  const messages = chat.setId === chatSetId ? chat.messages : NEW_CHAT;
+  const activeQuiz = quiz && quiz.setId === chatSetId ? quiz : null;
+  const { record, finish } = useStudySession(activeSet, 'tutor', onSessionEnd);
+
+  const scrollToBottom = () => {
+    messagesEndRef.current?.scrollIntoView({ behavior: "smooth" });
+  };
+
+  useEffect(() => {
+    if (isOpen) scrollToBottom();
+  }, [messages, streamingText, isOpen]);
+
+  // Each set keeps its own conversation; leaving the set stops a reply that's still coming in
+  useEffect(() => {
+    if (!chatSetId) return;
+    let cancelled = false;
+    storage.readChat(chatSetId)
+      .then(saved => {
+        if (!cancelled) setChat({ setId: chatSetId, messages: saved.length > 0 ? saved : NEW_CHAT });
+      })
+      .catch(error => console.error("Failed to load chat", error));
+    return () => {
+      cancelled = true;
+      abortRef.current?.abort();
+    };
+  }, [chatSetId, storage]);
+
+  const saveChat = (setId, chatMessages) => {
+    if (!setId) return;
+    storage.saveChat(setId, chatMessages.slice(-CHAT_SAVE_LIMIT)).catch(error => console.error("Failed to save chat", error));
+  };
+
+  const updateMessages = (nextMessages) => {
+    setChat({ setId: chatSetId, messages: nextMessages });
+    saveChat(chatSetId, nextMessages);
+  };
+
+  const startQuiz = (count = CHAT_QUIZ_LENGTH, chatMessages = messages) => {
+    const cards = pickQuizCards(activeSet, count);
+    if (cards.length === 0) {
+      updateMessages([...chatMessages, { role: 'ai', text: "This set has no cards with a term and a definition to quiz you on yet." }]);
+      return;
+    }
+    setQuiz({ setId: activeSet.id, cardIds: cards.map(c => c.id), index: 0, correct: 0 });
+    updateMessages([...chatMessages, { role: 'ai', text: formatQuizQuestion(cards[0], 1, cards.length) }]);
+  };
+
+  const endQuiz = (chatMessages, { correct, index }) => {
+    setQuiz(null);
+    finish();
+    updateMessages([...chatMessages, { role: 'ai', text: `Quiz finished: you got **${correct} of ${index}** right.` }]);
+  };
+
+  const handleQuizAnswer = async (answer) => {
+    const card = activeSet.cards.find(c => c.id === activeQuiz.cardIds[activeQuiz.index]);
+    setChat({ setId: chatSetId, messages: [...messages, { role: 'user', text: answer }] });
+    setIsLoading(true);
+    const controller = new AbortController();
+    abortRef.current = controller;
+    // Stop skips the AI and grades the answer by text matching instead
+    const result = card
+      ? await gradeAnswerWithAI(answer, card, 'term', { signal: controller.signal }).catch(error => {
+        if (!isAbortError(error)) throw error;
+        return gradeAnswerOffline(answer, card.term);
+      })
+      : { correct: false, typo: false };
+    abortRef.current = null;
+    setIsLoading(false);
+    if (card) record(card.id, result.correct);
+    const answered = {
+      ...activeQuiz,
+      index: activeQuiz.index + 1,
+      correct: activeQuiz.correct + (result.correct ? 1 : 0)
+    };
+    const asked = [...messages, { role: 'user', text: answer }, { role: 'ai', text: card ? formatQuizFeedback(result, card) : 'That card was deleted, so this one is skipped.' }];
+    const next = activeSet.cards.find(c => c.id === answered.cardIds[answered.index]);
+    if (!next) {
+      endQuiz(asked, answered);
+      return;
+    }
+    setQuiz(answered);
+    updateMessages([...asked, { role: 'ai', text: formatQuizQuestion(next, answered.index + 1, answered.cardIds.length) }]);
+  };
+
+  const handleSend = async () => {
+    if (!input.trim() || isLoading) return;
+    if (activeQuiz) {
+      handleQuizAnswer(input);
+      setInput('');
+      return;
+    }
+    
+    const setId = chatSetId;
+    const asked = [...messages, { role: 'user', text: input }];
+    setChat({ setId, messages: asked });
+    setInput('');
+    setIsLoading(true);
+    setStreamingText('');
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const aiResponseText = await chatWithAI(input, activeSet, messages, {
+      signal: controller.signal,
+      onToken: (token) => setStreamingText(prev => prev + token)
+    });
+    abortRef.current = null;
+    
+    const { text, actions } = parseTutorReply(aiResponseText, activeSet);
+    const answered = [...asked, { role: 'ai', text: text || (actions.length ? '' : '_Stopped before answering._'), ...(actions.length > 0 && { actions }) }];
+    setChat(prev => (prev.setId === setId ? { setId, messages: answered } : prev));
+    setIsLoading(false);
+    setStreamingText('');
+    saveChat(setId, answered);
+  };
+
+  const handleClear = () => {
+    if (!window.confirm("Clear this conversation?")) return;
+    setQuiz(null);
+    finish();
+    setChat({ setId: chatSetId, messages: NEW_CHAT });
+    saveChat(chatSetId, []);
+  };
+
+  // Marks an action as accepted or dismissed, then carries out an accepted one
+  const handleAction = (msgIdx, actionIdx, status) => {
+    const action = messages[msgIdx].actions[actionIdx];
+    const nextMessages = messages.map((msg, i) => i === msgIdx
+      ? { ...msg, actions: msg.actions.map((a, j) => j === actionIdx ? { ...a, status } : a) }
+      : msg
+    );
+    if (status !== 'accepted') {
+      updateMessages(nextMessages);
+      return;
+    }
+    if (action.type === 'quiz') {
+      startQuiz(action.count, nextMessages);
+      return;
+    }
+    updateMessages(nextMessages);
+    if (action.type === 'add_card') onAddCards(activeSet.id, [{ id: generateId(), term: action.term, def: action.def }]);
+    if (action.type === 'fix_definition') onUpdateCard(activeSet.id, action.cardId, { def: action.def });
+    if (action.type === 'flag_card') onEditSet(activeSet.id);
+  };
+
+  if (!activeSet && !isOpen) return null;
+
+  const bubbleClass = (role) => `max-w-[85%] px-4 py-3 rounded-2xl text-sm leading-relaxed shadow-sm ${
+    role === 'user' 
+      ? 'bg-indigo-600 text-white rounded-tr-sm' 
+      : darkMode 
+        ? 'chat-message bg-[#2c2c2e] text-gray-200 rounded-tl-sm' 
+        : 'chat-message bg-white text-gray-700 rounded-tl-sm'
+  }`;
+
+  const renderAction = (action, msgIdx, actionIdx) => {
+    const cardExists = !action.cardId || !!activeSet?.cards.some(c => c.id === action.cardId);
+    const isCurrentSet = chat.setId === chatSetId && !!activeSet;
+    const details = {
+      quiz: { icon: ClipboardList, title: `Quiz: ${action.count} question${action.count === 1 ? '' : 's'}`, accept: 'Start quiz', done: 'Quiz started' },
+      add_card: { icon: Plus, title: 'New card', accept: 'Add to set', done: 'Added to set' },
+      fix_definition: { icon: PenLine, title: `Better definition for "${action.term}"`, accept: 'Apply', done: 'Applied' },
+      flag_card: { icon: AlertCircle, title: `"${action.term}" may be wrong`, accept: 'Edit set', done: 'Opened editor' }
+    }[action.type];
+    const Icon = details.icon;
+    return (
+      <div key={actionIdx} className={`mt-2 p-3 rounded-xl border text-left ${darkMode ? 'border-gray-700 bg-[#1c1c1e]' : 'border-indigo-100 bg-indigo-50/50'}`}>
+        <p className={`flex items-center gap-2 text-xs font-bold ${action.type === 'flag_card' ? 'text-orange-500' : 'text-indigo-500'}`}>
+          <Icon size={14} /> {details.title}
+        </p>
+        {action.type === 'add_card' && (
+          <div className="mt-1">
+            <p className="font-semibold"><CardContent text={action.term} /></p>
+            <CardContent text={action.def} />
+          </div>
+        )}
+        {action.type === 'fix_definition' && <div className="mt-1"><CardContent text={action.def} /></div>}
+        {action.reason && <p className={`mt-1 text-xs ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>{action.reason}</p>}
+        <div className="mt-2 flex items-center gap-2">
+          {action.status === 'pending' && cardExists && isCurrentSet && !isLoading && !activeQuiz ? (
+            <>
+              <button onClick={() => handleAction(msgIdx, actionIdx, 'accepted')} className="px-3 py-1 rounded-full bg-indigo-600 text-white text-xs font-bold hover:bg-indigo-700 transition">
+                {details.accept}
+              </button>
+              <button onClick={() => handleAction(msgIdx, actionIdx, 'dismissed')} className={`px-3 py-1 rounded-full text-xs font-bold transition ${darkMode ? 'text-gray-400 hover:bg-gray-700' : 'text-gray-500 hover:bg-gray-100'}`}>
+                Dismiss
+              </button>
+            </>
+          ) : (
+            <span className={`flex items-center gap-1 text-xs font-medium ${darkMode ? 'text-gray-500' : 'text-gray-400'}`}>
+              {action.status === 'accepted' && <><Check size={12} /> {details.done}</>}
+              {action.status === 'dismissed' && 'Dismissed'}
+              {action.status === 'pending' && (cardExists ? 'Not available right now' : 'The card no longer exists')}
+            </span>
+          )}
+        </div>
+      </div>
+    );
+  };
+
+  return (
+    <div className="fixed bottom-6 right-6 z-50 flex flex-col items-end pointer-events-none">
+      {/* Chat Window */}
+      {isOpen && (
+        <div className={`mb-4 w-80 md:w-96 h-[500px] rounded-3xl shadow-2xl border flex flex-col overflow-hidden pointer-events-auto animate-in slide-in-from-bottom-10 fade-in duration-300 ${darkMode ? 'bg-[#1c1c1e] border-gray-800' : 'bg-white/90 backdrop-blur-xl border-gray-200/50'}`}>
+          {/* Header */}
+          <div className={`p-4 flex justify-between items-center border-b ${darkMode ? 'bg-[#2c2c2e] border-gray-800' : 'bg-white/50 border-gray-100'}`}>
+            <div className="flex items-center gap-3">
+              <div className="w-8 h-8 rounded-full bg-gradient-to-tr from-indigo-500 to-purple-500 flex items-center justify-center text-white shadow-md">
+                 <Bot size={16} />
+              </div>
+              <div>
+                <h3 className={`font-bold text-sm ${darkMode ? 'text-white' : 'text-gray-900'}`}>AI Tutor</h3>
+                <p className="text-xs text-green-500 font-medium">Online</p>
+              </div>
+            </div>
+            <div className="flex items-center gap-1">
+              <button
+                onClick={handleClear}
+                disabled={isLoading || messages.length <= 1}
+                title="Clear conversation"
+                className={`p-2 rounded-full transition disabled:opacity-30 disabled:cursor-not-allowed ${darkMode ? 'hover:bg-gray-700 text-gray-400' : 'hover:bg-gray-100 text-gray-500'}`}
+              >
+                <Trash2 size={16} />
+              </button>
+              <button onClick={() => setIsOpen(false)} className={`p-2 rounded-full transition ${darkMode ? 'hover:bg-gray-700 text-gray-400' : 'hover:bg-gray-100 text-gray-500'}`}>
+                <X size={18} />
+              </button>
+            </div>
+          </div>
+          
+          {/* Messages */}
+          <div className={`flex-1 overflow-y-auto p-4 space-y-4 ${darkMode ? 'bg-[#1c1c1e]' : 'bg-gray-50/50'}`}>
+            {messages.map((msg, idx) => (
+              <div key={idx} className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
+                <div className={bubbleClass(msg.role)}>
+                  {msg.role === 'user' ? <span className="whitespace-pre-wrap">{msg.text}</span> : msg.text && <CardContent text={msg.text} />}
+                  {msg.actions?.map((action, actionIdx) => renderAction(action, idx, actionIdx))}
+                </div>
+              </div>
+            ))}
+            {isLoading && (
+              <div className="flex justify-start">
+                {stripTutorActions(streamingText) ? (
+                  <div className={bubbleClass('ai')}>
+                    <CardContent text={stripTutorActions(streamingText)} />
+                  </div>
+                ) : (
+                  <div className={`px-4 py-3 rounded-2xl rounded-tl-sm shadow-sm ${darkMode ? 'bg-[#2c2c2e]' : 'bg-white'}`}>
+                    <Loader2 size={16} className="animate-spin text-indigo-600" />
+                  </div>
+                )}
+              </div>
+            )}
+            <div ref={messagesEndRef} />
+          </div>
+
+          {/* Input */}
+          <div className={`p-4 border-t ${darkMode ? 'bg-[#2c2c2e] border-gray-800' : 'bg-white/80 border-gray-100'}`}>
+            {activeSet && !isLoading && (
+              <div className="flex justify-end mb-2">
+                {activeQuiz ? (
+                  <button onClick={() => endQuiz(messages, activeQuiz)} className={`px-3 py-1 rounded-full text-xs font-bold transition ${darkMode ? 'text-gray-300 hover:bg-gray-700' : 'text-gray-600 hover:bg-gray-100'}`}>
+                    End quiz ({activeQuiz.index} of {activeQuiz.cardIds.length} answered)
+                  </button>
+                ) : (
+                  <button onClick={() => startQuiz()} className="flex items-center gap-1 px-3 py-1 rounded-full text-xs font-bold text-indigo-500 hover:bg-indigo-500/10 transition">
+                    <ClipboardList size={14} /> Quiz me
+                  </button>
+                )}
+              </div>
+            )}
+            <div className={`flex items-center rounded-full px-2 py-2 ${darkMode ? 'bg-[#1c1c1e]' : 'bg-gray-100'}`}>
+                <input 
+                type="text" 
+                value={input}
+                onChange={(e) => setInput(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && handleSend()}
+                placeholder={activeQuiz ? "Type your answer..." : "Ask a question..."}
+                className={`flex-1 bg-transparent border-none outline-none px-4 text-sm ${darkMode ? 'text-white placeholder-gray-500' : 'text-gray-900 placeholder-gray-400'}`}
+                />
+                {isLoading ? (
+                  <button 
+                  onClick={() => abortRef.current?.abort()} 
+                  title="Stop"
+                  className="p-2 bg-indigo-600 text-white rounded-full hover:bg-indigo-700 transition shadow-sm active:scale-95"
+                  >
+                  <Square size={16} fill="currentColor" />
+                  </button>
+                ) : (
+                  <button 
+                  onClick={handleSend} 
+                  disabled={!input.trim()}
+                  className="p-2 bg-indigo-600 text-white rounded-full hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed transition shadow-sm active:scale-95"
+                  >
+                  <Send size={16} />
+                  </button>
+                )}
+            </div>
+          </div>
+        </div>
+      )}
+
+      {/* Toggle Button */}
+      <button 
+        onClick={() => setIsOpen(!isOpen)}
+        className="pointer-events-auto p-4 bg-gradient-to-r from-indigo-600 to-purple-600 text-white rounded-full shadow-xl shadow-indigo-500/30 hover:scale-105 active:scale-95 transition-all duration-300 flex items-center gap-2 group z-50"
+      >
+        {isOpen ? <X size={24} /> : <MessageCircle size={24} />}
+        {!isOpen && <span className="max-w-0 overflow-hidden group-hover:max-w-xs transition-all duration-300 whitespace-nowrap font-semibold">Ask AI</span>}
+      </button>
+    </div>
+  );
+};
+
+// 3. AI GENERATOR COMPONENT
+const UPLOAD_TYPES = [
+  'image/png', 'image/jpeg', 'image/webp', 'image/heic',
+  'application/pdf'
+];
+
+// Errors that will fail every remaining section too, so generation stops at the first one
+const FATAL_AI_ERRORS = ['auth', 'quota', 'network', 'budget'];
+
+const AIGenerator = ({ onSave, onAppend, sets, onCancel, darkMode }) => {
+  const [text, setText] = useState('');
+  const [files, setFiles] = useState([]); // [{ id, base64, mimeType, preview, name, pageCount, from, to }] or [{ id, name, text }]; a PDF's pageCount is null while counting and 0 if it couldn't be counted
+  const [previewId, setPreviewId] = useState(null);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [progress, setProgress] = useState(null); // { done, total, label }
+  const [generated, setGenerated] = useState(null); // the AI's reply, shown for review before saving
+  const [error, setError] = useState(null);
+  const [fresh, setFresh] = useState(false); // ask the AI again even when the same material was generated from before
+  const fileInputRef = useRef(null);
+  const abortRef = useRef(null);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const updateFile = (id, changes) => {
+    setFiles(prev => prev.map(f => f.id === id ? { ...f, ...changes } : f));
+  };
+
+  const handleFileChange = async (e) => {
+    const selected = [...e.target.files];
+    e.target.value = '';
+    if (selected.length === 0) return;
+
+    if (selected.some(f => !UPLOAD_TYPES.includes(f.type) && !getTextExtractor(f.name))) {
+      setError("Unsupported file type. Please upload PDFs, images, Word (.docx), PowerPoint (.pptx), Markdown, text or HTML files.");
+      return;
+    }
+    if (files.length + selected.length > MAX_UPLOAD_FILES) {
+      setError(`You can upload up to ${MAX_UPLOAD_FILES} files at a time.`);
+      return;
+    }
+
+    setError(null);
+    for (const selectedFile of selected) {
+      // Documents are read as text here; a preview lets the user check and trim it before generating
+      const extractText = !UPLOAD_TYPES.includes(selectedFile.type) && getTextExtractor(selectedFile.name);
+      if (extractText) {
+        try {
+          const extracted = await extractText(selectedFile);
+          if (!extracted) throw new Error(`No text was found in ${selectedFile.name}.`);
+          setFiles(prev => [...prev, { id: generateId(), name: selectedFile.name, text: extracted }]);
+        } catch (err) {
+          console.error("Text Extraction Error:", err);
+          setError(`Couldn't read ${selectedFile.name}: ${err.message}`);
+        }
+        continue;
+      }
+      // result is like "data:application/pdf;base64,......"
+      const dataUrl = await readFileAsDataURL(selectedFile);
+      const added = {
+        id: generateId(),
+        base64: dataUrl.split(',')[1],
+        mimeType: selectedFile.type,
+        preview: selectedFile.type.startsWith('image/') ? dataUrl : null,
+        name: selectedFile.name,
+        pageCount: null,
+        from: 1,
+        to: null
+      };
+      setFiles(prev => [...prev, added]);
+      if (added.mimeType === 'application/pdf') {
+        loadPdf(added.base64)
+          .then(pdf => updateFile(added.id, { pageCount: pdf.getPageCount(), to: pdf.getPageCount() }))
+          .catch(err => {
+            console.error("PDF Page Count Error:", err);
+            updateFile(added.id, { pageCount: 0 });
+          });
+      }
+    }
+  };
+
+  const handleRemoveFile = (id) => {
+    setFiles(prev => prev.filter(f => f.id !== id));
+  };
+
+  // Page ranges decide how PDFs are split, so generating waits until they are known
+  const countingPages = files.some(f => f.mimeType === 'application/pdf' && f.pageCount === null);
+
+  const handleGenerate = async () => {
+    if ((!text.trim() || text.length < 10) && files.length === 0) {
+      setError("Please enter text or upload a document to analyze.");
+      return;
+    }
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setIsGenerating(true);
+    setError(null);
+    setProgress({ done: 0, total: 0, label: 'Preparing sections...' });
+
+    // With files, the text box holds instructions that go along with every section
+    const instructions = files.length > 0 ? text.trim() : '';
+    const results = [];
+    const failures = [];
+    try {
+      const sections = await planSections(files.length > 0 ? '' : text, files);
+      if (sections.length === 0) throw new Error("There's nothing to generate from. Add some notes, or check that your documents contain text.");
+      for (const [index, section] of sections.entries()) {
+        if (controller.signal.aborted) break;
+        setProgress({ done: index, total: sections.length, label: section.label });
+        const source = { text: instructions && section.text ? `Instructions: ${instructions}\n\n${section.text}` : instructions || section.text, file: section.file };
+        try {
+          const result = await generateFlashcardsAI(source.text, source.file?.base64, source.file?.mimeType, { fresh, signal: controller.signal });
+          results.push({ ...result, label: section.label, source });
+        } catch (err) {
+          if (isAbortError(err)) break;
+          failures.push({ label: section.label, message: formatAIError(err) });
+          if (FATAL_AI_ERRORS.includes(err.kind)) break;
+        }
+      }
+    } catch (err) {
+      failures.push({ label: null, message: err.message });
+    }
+
+    abortRef.current = null;
+    setIsGenerating(false);
+    setProgress(null);
+    if (results.length > 0) {
+      setGenerated({ title: results[0].title, description: results[0].description, sections: results, failures });
+    } else if (failures.length > 0) {
+      setError(failures[0].message);
+    }
+  };
+
+  if (generated) {
+    return (
+      <GeneratedSetReview
+        generated={generated}
+        sets={sets}
+        onSaveSet={onSave}
+        onAppend={onAppend}
+        onBack={() => setGenerated(null)}
+        darkMode={darkMode}
+      />
+    );
+  }
+
+  const bgClass = darkMode ? 'bg-[#1c1c1e] border-gray-800 text-white' : 'bg-white border-gray-200 text-gray-900';
+  const textClass = darkMode ? 'text-gray-400' : 'text-gray-500';
+  const pageInputClass = `w-16 px-2 py-1 rounded-lg border text-center outline-none ${darkMode ? 'bg-[#1c1c1e] border-gray-700 text-white' : 'bg-white border-gray-200 text-gray-900'}`;
+
+  return (
+    <div className="max-w-3xl mx-auto p-4 h-full flex flex-col animate-in fade-in duration-500">
+      <div className="mb-8">
+        <button onClick={onCancel} className={`${textClass} hover:text-indigo-500 font-semibold flex items-center mb-6 transition-colors`}>
+          <ArrowLeft size={18} className="mr-2" /> Back
+        </button>
+        <div className="flex items-center gap-4 mb-3">
+          <div className="w-12 h-12 bg-gradient-to-br from-purple-500 to-indigo-600 rounded-2xl flex items-center justify-center text-white shadow-lg shadow-purple-500/20">
+            <Sparkles size={24} />
+          </div>
+          <h1 className={`text-3xl font-bold tracking-tight ${darkMode ? 'text-white' : 'text-gray-900'}`}>Magic Generator</h1>
+        </div>
+        <p className={`text-lg leading-relaxed ${textClass}`}>Paste your notes, or upload PDFs, images, Word documents or slide decks. Our AI will scan them to build your deck instantly.</p>
+      </div>
+
+      <div className="flex-1 flex flex-col gap-6 mb-8 relative">
+        {/* File Upload Section */}
+        <input 
+          type="file" 
+          accept="image/*,application/pdf,.docx,.pptx,.md,.markdown,.txt,.html,.htm" 
+          multiple
+          className="hidden" 
+          ref={fileInputRef}
+          onChange={handleFileChange}
+        />
+        
+        {files.length > 0 && (
+          <div className="space-y-3">
+            {files.map(file => {
+              const isDocument = typeof file.text === 'string';
+              return (
+                <div key={file.id} className={`p-3 rounded-2xl border ${darkMode ? 'bg-[#2c2c2e] border-gray-700' : 'bg-gray-50 border-gray-200'}`}>
+                  <div className="flex items-center gap-4">
+                    {file.preview ? (
+                      <img src={file.preview} alt="" className="w-12 h-12 rounded-xl object-cover flex-shrink-0" />
+                    ) : (
+                      <div className={`w-12 h-12 rounded-xl flex items-center justify-center flex-shrink-0 ${darkMode ? 'bg-[#1c1c1e]' : 'bg-white'}`}>
+                        {isDocument ? <FileText size={24} className="text-indigo-500" /> : <FileIcon size={24} className="text-indigo-500" />}
+                      </div>
+                    )}
+                    <div className="flex-1 min-w-0">
+                      <p className={`font-semibold truncate ${darkMode ? 'text-white' : 'text-gray-900'}`}>{file.name}</p>
+                      {isDocument ? (
+                        <div className={`flex items-center gap-3 mt-1 text-sm ${textClass}`}>
+                          {file.text.split(/\s+/).filter(Boolean).length.toLocaleString()} words
+                          <button onClick={() => setPreviewId(previewId === file.id ? null : file.id)} className="flex items-center gap-1 font-semibold text-indigo-500 hover:text-indigo-600">
+                            <Eye size={14} /> {previewId === file.id ? 'Hide text' : 'Preview text'}
+                          </button>
+                        </div>
+                      ) : file.pageCount ? (
+                        <div className={`flex items-center gap-2 mt-1 text-sm ${textClass}`}>
+                          Pages
+                          <input
+                            type="number"
+                            min={1}
+                            max={file.to}
+                            value={file.from}
+                            disabled={isGenerating}
+                            onChange={(e) => updateFile(file.id, { from: Math.min(Math.max(Number(e.target.value) || 1, 1), file.to) })}
+                            className={pageInputClass}
+                          />
+                          to
+                          <input
+                            type="number"
+                            min={file.from}
+                            max={file.pageCount}
+                            value={file.to}
+                            disabled={isGenerating}
+                            onChange={(e) => updateFile(file.id, { to: Math.min(Math.max(Number(e.target.value) || file.from, file.from), file.pageCount) })}
+                            className={pageInputClass}
+                          />
+                          of {file.pageCount}
+                        </div>
+                      ) : (
+                        <span className={`text-xs uppercase font-medium tracking-wide ${textClass}`}>{file.mimeType.split('/')[1] || 'DOC'}</span>
+                      )}
+                    </div>
+                    <button onClick={() => handleRemoveFile(file.id)} disabled={isGenerating} title="Remove" className={`p-2 rounded-full transition disabled:opacity-30 ${darkMode ? 'text-gray-400 hover:bg-[#3a3a3c] hover:text-red-400' : 'text-gray-400 hover:bg-red-50 hover:text-red-500'}`}>
+                      <X size={18} />
+                    </button>
+                  </div>
+                  {isDocument && previewId === file.id && (
+                    <textarea
+                      value={file.text}
+                      onChange={(e) => updateFile(file.id, { text: e.target.value })}
+                      disabled={isGenerating}
+                      title="This text is what gets sent. You can trim it here."
+                      className={`mt-3 w-full h-64 p-4 rounded-xl border text-sm font-mono leading-relaxed resize-y outline-none ${darkMode ? 'bg-[#1c1c1e] border-gray-700 text-gray-200' : 'bg-white border-gray-200 text-gray-700'}`}
+                    />
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        )}
+
+        <button 
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isGenerating || files.length >= MAX_UPLOAD_FILES}
+          className={`w-full ${files.length > 0 ? 'h-16 flex-row gap-3' : 'h-32 flex-col'} border-2 border-dashed rounded-3xl flex items-center justify-center transition-all duration-300 group disabled:opacity-50 ${darkMode ? 'bg-[#1c1c1e] border-gray-700 text-gray-400 hover:border-indigo-500 hover:bg-[#2c2c2e]' : 'bg-gray-50 border-gray-300 text-gray-400 hover:border-indigo-500 hover:bg-indigo-50/30'}`}
+        >
+          <div className={`p-3 rounded-full transition-colors ${files.length > 0 ? '' : 'mb-3'} ${darkMode ? 'bg-[#2c2c2e] group-hover:text-white' : 'bg-white group-hover:text-indigo-600 text-gray-400'}`}>
+             <Upload size={files.length > 0 ? 18 : 24} />
+          </div>
+          <span className="font-semibold text-sm">{files.length > 0 ? 'Add more files' : 'Click to upload PDFs, images, Word, PowerPoint, Markdown, text or HTML'}</span>
+        </button>
+
+        {/* Text Area */}
+        <div className={`flex-1 rounded-3xl shadow-sm border p-1 flex flex-col relative overflow-hidden transition-all ${bgClass} ${darkMode ? 'focus-within:border-gray-600' : 'focus-within:border-indigo-300 focus-within:ring-4 focus-within:ring-indigo-100'}`}>
+          <textarea 
+            className={`flex-1 w-full h-full min-h-[8rem] resize-none outline-none leading-relaxed p-5 rounded-2xl bg-transparent ${darkMode ? 'text-gray-100 placeholder-gray-600' : 'text-gray-800 placeholder-gray-400'}`}
+            placeholder={files.length > 0 ? "Optional instructions for the AI, e.g. \"focus on dates and names\"..." : "Or paste your text here..."}
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            disabled={isGenerating}
+          />
+          {isGenerating && progress && (
+            <div className={`absolute inset-0 backdrop-blur-md flex flex-col items-center justify-center z-10 px-8 ${darkMode ? 'bg-black/60' : 'bg-white/60'}`}>
+              <div className="relative">
+                 <div className="absolute inset-0 bg-indigo-500 blur-xl opacity-20 animate-pulse rounded-full"></div>
+                 <Loader2 size={48} className="text-indigo-600 animate-spin mb-6 relative z-10" />
+              </div>
+              <p className="text-indigo-600 font-bold animate-pulse tracking-wide text-lg text-center">
+                {progress.total > 1 ? `Section ${progress.done + 1} of ${progress.total}` : files.length > 0 ? "Scanning document..." : "Analyzing text..."}
+              </p>
+              {progress.total > 1 && (
+                <>
+                  <p className={`text-sm mt-1 truncate max-w-full ${textClass}`}>{progress.label}</p>
+                  <div className={`w-full max-w-xs h-2 rounded-full mt-4 overflow-hidden ${darkMode ? 'bg-gray-700' : 'bg-gray-200'}`}>
+                    <div className="h-full bg-indigo-600 transition-all duration-500" style={{ width: `${(progress.done / progress.total) * 100}%` }} />
+                  </div>
+                </>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-6 p-4 bg-red-500/10 border border-red-500/20 text-red-600 rounded-2xl text-sm flex items-center animate-in slide-in-from-bottom-2 font-medium">
+          <AlertCircle size={18} className="mr-3 flex-shrink-0" /> 
+          <span>{error}</span>
+        </div>
+      )}
+
+      <div className="flex justify-end items-center gap-4">
+        <label
+          title="Magic Create reuses its result when the same material is generated from again. Tick this to get a new one."
+          className={`mr-auto flex items-center gap-2 text-sm font-medium cursor-pointer ${textClass}`}
+        >
+          <input type="checkbox" checked={fresh} onChange={(e) => setFresh(e.target.checked)} disabled={isGenerating} className="w-4 h-4 accent-indigo-600" />
+          Generate fresh
+        </label>
+        <button 
+          onClick={isGenerating ? () => abortRef.current?.abort() : onCancel}
+          className={`px-8 py-3.5 font-semibold rounded-full transition-all ${darkMode ? 'text-gray-300 hover:bg-[#2c2c2e]' : 'text-gray-600 hover:bg-gray-100'}`}
+        >
+          {isGenerating ? 'Stop' : 'Cancel'}
+        </button>
+        <button 
+          onClick={handleGenerate}
+          disabled={isGenerating || countingPages || (!text.trim() && files.length === 0)}
+          title={countingPages ? 'Counting the pages of your PDFs...' : undefined}
+          className="px-8 py-3.5 bg-gradient-to-r from-indigo-600 to-purple-600 text-white font-bold rounded-full shadow-lg shadow-indigo-500/30 hover:shadow-xl hover:scale-105 active:scale-95 transition-all disabled:opacity-50 disabled:scale-100 disabled:shadow-none flex items-center"
+        >
+          {isGenerating ? 'Generating...' : <><Sparkles size={18} className="mr-2" /> Generate Set</>}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+// 4. FLASHCARD COMPONENT
+const FlashcardMode = ({ set, sets = [], onBack, onGrade = null, dueOnly = false, starredOnly = false, onToggleStar = null, onSessionEnd = null, speech = null, darkMode }) => {
+  // Folder and library decks mix sets whose card ids may repeat, so their cards carry the set they belong to
+  const setIdOf = (card) => card.setId ?? set.id;
+  const cardKey = (card) => `${setIdOf(card)}/${card.id}`;
+  // Snapshot the deck on entry so grading (which reschedules cards) or unstarring doesn't reshuffle it mid-session.
+  // A review puts cards answered "Again" back at the end, so the session only ends once each has been recalled.
+  const [deckKeys, setDeckKeys] = useState(() => {
+    const pool = starredOnly ? set.cards.filter(c => c.starred) : set.cards;
+    return (dueOnly ? sortByDue(getDueCards(pool)) : pool).map(cardKey);
+  });
+  const cards = deckKeys.map(key => set.cards.find(c => cardKey(c) === key)).filter(Boolean);
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [isFlipped, setIsFlipped] = useState(false);
+  const [finished, setFinished] = useState(false);
+  // Folder and library decks have no voices of their own; each card is read with the voices of the set it came from
+  const speechSetOf = (card) => (card?.setId && sets.find(s => s.id === card.setId)) || set;
+  const [autoRead, setAutoRead] = useState(() => cards.length > 0 && cards.every(c => getSpeechSettings(speechSetOf(c)).autoRead));
+
+  const nextCard = () => {
+    setIsFlipped(false);
+    setTimeout(() => {
+      setCurrentIndex((prev) => (prev + 1) % cards.length);
+    }, 150);
+  };
+
+  const prevCard = () => {
+    setIsFlipped(false);
+    setTimeout(() => {
+      setCurrentIndex((prev) => (prev - 1 + cards.length) % cards.length);
+    }, 150);
+  };
+
+  const currentCard = cards[currentIndex];
+  const speechSettings = getSpeechSettings(speechSetOf(currentCard));
+
+  const { record, finish } = useStudySession(set, dueOnly ? 'review' : 'flashcards', onSessionEnd);
+
+  // Read out whichever side just turned face up
+  const visibleSide = isFlipped ? 'def' : 'term';
+  const visibleText = currentCard?.[visibleSide];
+  const { lang, voiceURI } = speechSettings[visibleSide];
+  useEffect(() => {
+    if (!autoRead || !speech?.isSupported || finished) return;
+    const spoken = toSpeechText(visibleText || '');
+    if (spoken) speech.speak(spoken, { lang, voiceURI });
+  }, [autoRead, speech, finished, visibleText, lang, voiceURI]);
+
+  useEffect(() => () => speech?.cancel(), [speech]);
+
+  const handleGrade = (grade) => {
+    if (!onGrade || !currentCard) return;
+    onGrade(setIdOf(currentCard), currentCard.id, grade);
+    record(currentCard.id, grade !== 'again');
+    if (!dueOnly) {
+      nextCard();
+      return;
+    }
+    const requeue = grade === 'again';
+    if (requeue) setDeckKeys(prev => [...prev, cardKey(currentCard)]);
+    if (!requeue && currentIndex === cards.length - 1) {
+      finish();
+      setFinished(true);
+      return;
+    }
+    // Not nextCard: the deck may have just grown, and a review never wraps back to its first card
+    setIsFlipped(false);
+    setTimeout(() => setCurrentIndex(currentIndex + 1), 150);
+  };
+
+  useEffect(() => {
+    const handleKeyDown = (e) => {
+      if (e.key === 'ArrowRight') nextCard();
+      if (e.key === 'ArrowLeft') prevCard();
+      if (e.key === ' ' || e.key === 'Enter') setIsFlipped(prev => !prev);
+      const grade = REVIEW_GRADES.find(g => g.key === e.key);
+      if (grade && isFlipped) handleGrade(grade.id);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [cards.length, isFlipped, currentIndex]);
+
+  if (finished || cards.length === 0) {
+    const reviewedCount = new Set(deckKeys).size;
+    return (
+      <div className="flex flex-col items-center justify-center h-full p-8 animate-in zoom-in-95">
+        <div className="w-24 h-24 bg-green-100 rounded-full flex items-center justify-center mb-6 text-green-600 shadow-lg shadow-green-500/20">
+             <Check size={48} strokeWidth={3} />
+        </div>
+        <h2 className={`text-4xl font-bold mb-4 tracking-tight ${darkMode ? 'text-white' : 'text-gray-900'}`}>All caught up!</h2>
+        <p className={`text-lg font-medium mb-12 ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>
+          {cards.length === 0 ? 'Nothing is due for review right now.' : `You reviewed ${reviewedCount} ${reviewedCount === 1 ? 'card' : 'cards'}.`}
+        </p>
+        <button onClick={onBack} className={`px-10 py-4 rounded-full font-bold text-lg transition-all hover:scale-105 active:scale-95 shadow-lg ${darkMode ? 'bg-white text-black hover:bg-gray-100' : 'bg-black text-white hover:bg-gray-800'}`}>Back</button>
+      </div>
+    );
+  }
+
+  const progress = ((currentIndex + 1) / cards.length) * 100;
+
+  const faceActions = (side) => (
+    <div className="absolute top-6 right-6 flex items-center gap-1">
+      <SpeakButton speech={speech} text={currentCard[side]} voice={speechSettings[side]} darkMode={darkMode} className="p-2" />
+      {onToggleStar && (
+        <button
+          onClick={(e) => {
+            e.stopPropagation();
+            onToggleStar(setIdOf(currentCard), currentCard.id);
+          }}
+          className={`p-2 rounded-full transition-all active:scale-90 ${currentCard.starred ? 'text-amber-400' : darkMode ? 'text-gray-600 hover:text-gray-400' : 'text-gray-300 hover:text-gray-400'}`}
+          title={currentCard.starred ? 'Unstar' : 'Star'}
+        >
+          <Star size={22} fill={currentCard.starred ? 'currentColor' : 'none'} />
+        </button>
+      )}
+    </div>
+  );
+
+  return (
+    <div className="flex flex-col h-full max-w-4xl mx-auto p-4">
+      <div className="mb-8 flex items-center justify-between">
+        <button onClick={onBack} className={`flex items-center font-semibold transition-colors ${darkMode ? 'text-gray-300 hover:text-white' : 'text-gray-600 hover:text-gray-900'}`}>
+          <ArrowLeft size={20} className="mr-2" /> {dueOnly ? 'End Review' : 'Back to Set'}
+        </button>
+        <div className="flex items-center gap-3">
+          {speech?.isSupported && (
+            <button
+              onClick={() => setAutoRead(!autoRead)}
+              className={`p-2 rounded-full transition-all ${autoRead ? 'bg-indigo-500/10 text-indigo-500' : darkMode ? 'text-gray-500 hover:text-white' : 'text-gray-400 hover:text-gray-700'}`}
+              title={autoRead ? 'Stop reading cards aloud' : 'Read cards aloud when flipped'}
+            >
+              {autoRead ? <Volume2 size={18} /> : <VolumeX size={18} />}
+            </button>
+          )}
+          <span className={`text-sm font-bold tracking-wide px-3 py-1 rounded-full ${darkMode ? 'bg-[#2c2c2e] text-gray-300' : 'bg-gray-100 text-gray-500'}`}>{currentIndex + 1} / {cards.length}</span>
+        </div>
+      </div>
+      {/* Card Container */}
+      <div className="flex-1 flex flex-col justify-center items-center min-h-[400px] perspective-1000">
+        <div 
+          className={`relative w-full h-96 cursor-pointer transition-all duration-500 transform-style-3d ${isFlipped ? 'rotate-y-180' : ''}`}
+          onClick={() => setIsFlipped(!isFlipped)}
+        >
+          {/* Front */}
+          <div className={`absolute inset-0 rounded-3xl shadow-xl border flex flex-col items-center justify-center p-10 backface-hidden ${darkMode ? 'bg-[#1c1c1e] border-gray-800 text-white' : 'bg-white border-gray-100 text-gray-900'}`}>
+            <span className={`text-xs font-bold uppercase tracking-widest absolute top-8 left-8 ${darkMode ? 'text-gray-500' : 'text-gray-400'}`}>Term</span>
+            {faceActions('term')}
+            <h2 className="text-3xl md:text-5xl text-center font-bold tracking-tight leading-tight max-h-full overflow-y-auto"><CardContent text={currentCard.term} image={currentCard.termImage} /></h2>
+            <span className={`text-sm font-medium absolute bottom-8 text-center w-full opacity-50 ${darkMode ? 'text-gray-400' : 'text-gray-400'}`}>Tap to flip</span>
+          </div>
+
+          {/* Back */}
+          <div className={`absolute inset-0 rounded-3xl shadow-xl border flex flex-col items-center justify-center p-10 backface-hidden rotate-y-180 ${darkMode ? 'bg-[#2c2c2e] border-gray-700 text-white' : 'bg-gradient-to-br from-indigo-50 to-white border-indigo-100 text-indigo-900'}`}>
+            <span className={`text-xs font-bold uppercase tracking-widest absolute top-8 left-8 ${darkMode ? 'text-gray-400' : 'text-indigo-400'}`}>Definition</span>
+            {faceActions('def')}
+            <div className="text-2xl md:text-3xl text-center font-medium leading-relaxed max-h-full overflow-y-auto"><CardContent text={currentCard.def} image={currentCard.defImage} /></div>
+          </div>
+        </div>
+
+        {/* Grading (shown once the answer is revealed) */}
+        {onGrade && isFlipped ? (
+          <div className="grid grid-cols-4 gap-3 mt-12 w-full max-w-2xl animate-in fade-in slide-in-from-bottom-2">
+            {REVIEW_GRADES.map(grade => (
+              <button
+                key={grade.id}
+                onClick={() => handleGrade(grade.id)}
+                className={`flex flex-col items-center py-4 rounded-2xl text-white font-bold shadow-lg transition-all active:scale-95 ${grade.className}`}
+                title={`Shortcut: ${grade.key}`}
+              >
+                {grade.label}
+                <span className="text-xs font-medium opacity-80 mt-1">{previewInterval(currentCard.review, grade.id)}</span>
+              </button>
+            ))}
+          </div>
+        ) : (
+        <div className="flex items-center justify-center gap-8 mt-12">
+          {[
+            { icon: ChevronLeft, action: prevCard },
+            { icon: RotateCw, action: () => setIsFlipped(!isFlipped) },
+            { icon: ChevronRight, action: nextCard }
+          ].map((btn, i) => (
+            <button 
+              key={i} 
+              onClick={btn.action} 
+              className={`p-5 rounded-full transition-all active:scale-95 ${darkMode ? 'bg-[#2c2c2e] text-white hover:bg-[#3a3a3c] shadow-lg shadow-black/20' : 'bg-white text-gray-600 hover:text-indigo-600 hover:shadow-xl shadow-lg shadow-gray-200/50'}`}
+            >
+              <btn.icon size={24} strokeWidth={2.5} />
+            </button>
+          ))}
+        </div>
+        )}
+      </div>
+
+      {/* Progress Bar */}
+      <div className={`mt-12 h-1.5 rounded-full overflow-hidden ${darkMode ? 'bg-[#2c2c2e]' : 'bg-gray-100'}`}>
+        <div className="h-full bg-indigo-500 transition-all duration-300 rounded-full" style={{ width: `${progress}%` }}></div>
+      </div>
+    </div>
+  );
+};
+
+// 5. MATCH GAME COMPONENT
+const MatchMode = ({ set, onBack, onSessionEnd = null, darkMode }) => {
+  const [items, setItems] = useState([]);
+  const [selectedIds, setSelectedIds] = useState([]);
+  const [matchedIds, setMatchedIds] = useState([]);
+  const [missedCardIds, setMissedCardIds] = useState([]);
+  const [startTime] = useState(Date.now());
+  const [currentTime, setCurrentTime] = useState(0);
+  const [isGameOver, setIsGameOver] = useState(false);
+  const [wrongPair, setWrongPair] = useState([]);
+  const { record, finish } = useStudySession(set, 'match', onSessionEnd);
+
+  // Initialize Game
+  useEffect(() => {
+    setItems(shuffleArray(toPairItems(set.cards)));
+    
+    const timer = setInterval(() => {
+      if (!isGameOver) setCurrentTime((Date.now() - startTime) / 1000);
+    }, 100);
+    return () => clearInterval(timer);
+  }, [set, isGameOver, startTime]);
+
+  useEffect(() => {
+    if (matchedIds.length === items.length && items.length > 0) {
+      setIsGameOver(true);
+    }
+  }, [matchedIds, items]);
+
+  const handleCardClick = (item) => {
+    if (matchedIds.includes(item.id) || selectedIds.includes(item.id) || isGameOver || wrongPair.length > 0) return;
+
+    const newSelected = [...selectedIds, item.id];
+    setSelectedIds(newSelected);
+
+    if (newSelected.length === 2) {
+      const [firstId, secondId] = newSelected;
+      const firstItem = items.find(i => i.id === firstId);
+      const secondItem = items.find(i => i.id === secondId);
+
+      if (firstItem.parentId === secondItem.parentId) {
+        setMatchedIds(prev => [...prev, firstId, secondId]);
+        setSelectedIds([]);
+        if (matchedIds.length + 2 === items.length) {
+          // A card counts as right if it was matched without a wrong guess
+          set.cards.forEach(card => record(card.id, !missedCardIds.includes(card.id)));
+          finish({ matchTime: currentTime });
+        }
+      } else {
+        setMissedCardIds(prev => [...prev, firstItem.parentId, secondItem.parentId]);
+        setWrongPair([firstId, secondId]);
+        setTimeout(() => {
+          setWrongPair([]);
+          setSelectedIds([]);
+        }, 800);
+      }
+    }
+  };
+
+  if (isGameOver) {
+    return (
+      <div className="flex flex-col items-center justify-center h-full p-8 animate-in zoom-in-95 duration-500">
+        <div className="mb-8 relative">
+            <div className="absolute inset-0 bg-yellow-500 blur-3xl opacity-20 rounded-full"></div>
+            <Trophy size={80} className="text-yellow-500 relative z-10 drop-shadow-lg" />
+        </div>
+        <h2 className={`text-5xl font-bold mb-4 tracking-tight ${darkMode ? 'text-white' : 'text-gray-900'}`}>Great Job!</h2>
+        <p className={`text-2xl mb-12 font-medium ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>You cleared the deck in <span className="font-bold text-indigo-500">{currentTime.toFixed(1)}s</span></p>
+        <div className="flex gap-4">
+          <button onClick={() => window.location.reload()} className="px-8 py-4 bg-indigo-600 text-white rounded-full font-bold hover:bg-indigo-700 hover:shadow-lg hover:scale-105 active:scale-95 transition-all">Play Again</button>
+          <button onClick={onBack} className={`px-8 py-4 rounded-full font-bold transition-all hover:scale-105 active:scale-95 ${darkMode ? 'bg-[#2c2c2e] text-white hover:bg-[#3a3a3c]' : 'bg-gray-100 text-gray-900 hover:bg-gray-200'}`}>Back to Set</button>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="h-full flex flex-col p-4">
+      <div className="flex justify-between items-center mb-6">
+        <button onClick={onBack} className={`flex items-center font-semibold transition-colors ${darkMode ? 'text-gray-400 hover:text-indigo-400' : 'text-gray-600 hover:text-indigo-600'}`}>
+           <X size={20} className="mr-2" /> End Game
+        </button>
+        <div className="text-2xl font-mono font-bold text-indigo-500 bg-indigo-500/10 px-4 py-1 rounded-lg">{currentTime.toFixed(1)}s</div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4 flex-1 content-start">
+        {items.map(item => {
+          const isSelected = selectedIds.includes(item.id);
+          const isMatched = matchedIds.includes(item.id);
+          const isWrong = wrongPair.includes(item.id);
+
+          if (isMatched) return <div key={item.id} className="invisible"></div>;
+
+          // Card Base Styles
+          let cardStyle = darkMode 
+            ? 'bg-[#1c1c1e] border-gray-800 text-gray-200' 
+            : 'bg-white border-gray-200 text-gray-700 hover:border-indigo-300';
+
+          if (isSelected) {
+             cardStyle = darkMode 
+              ? 'border-indigo-500 bg-[#2c2c2e] text-white scale-105 shadow-lg shadow-indigo-500/20' 
+              : 'border-indigo-500 bg-indigo-50 text-indigo-900 scale-105 shadow-lg shadow-indigo-200/50';
+          }
+          if (isWrong) {
+             cardStyle = darkMode 
+              ? 'animate-shake border-red-500 bg-red-900/20 text-red-400' 
+              : 'animate-shake border-red-500 bg-red-50 text-red-600';
+          }
+
+          return (
+            <div
+              key={item.id}
+              onClick={() => handleCardClick(item)}
+              className={`min-h-[120px] p-6 rounded-2xl flex items-center justify-center text-center cursor-pointer transition-all duration-200 shadow-sm border-2 font-semibold text-lg select-none ${cardStyle}`}
+            >
+              <CardContent text={item.content} image={item.image} imageClassName="max-h-24" />
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+// 6. LEARN MODE COMPONENT
+const LearnMode = ({ set, onBack, onSessionEnd = null, darkMode }) => {
+  const [queue, setQueue] = useState([]);
+  const [currentQ, setCurrentQ] = useState(null);
+  const [options, setOptions] = useState([]);
+  const [selectedOption, setSelectedOption] = useState(null);
+  const [isCorrect, setIsCorrect] = useState(null);
+  const [score, setScore] = useState(0);
+  const [completed, setCompleted] = useState(false);
+  const { record, finish } = useStudySession(set, 'learn', onSessionEnd);
+
+  useEffect(() => {
+    setQueue(sortByDue(shuffleArray(set.cards)));
+  }, [set]);
+
+  useEffect(() => {
+    if (queue.length > 0 && !currentQ) {
+      const nextCard = queue[0];
+      setCurrentQ(nextCard);
+      
+      const distractors = pickDistractors(nextCard, set.cards);
+      const allOptions = shuffleArray([nextCard, ...distractors]);
+      setOptions(allOptions);
+      setSelectedOption(null);
+      setIsCorrect(null);
+    } else if (queue.length <= 0 && currentQ === null && !completed) {
+      // Handled by queue check in render
+    }
+  }, [queue, currentQ, set.cards, completed]);
+
+  const handleAnswer = (option) => {
+    if (selectedOption) return;
+    setSelectedOption(option);
+    record(currentQ.id, option.id === currentQ.id);
+    
+    if (option.id === currentQ.id) {
+      setIsCorrect(true);
+      setScore(s => s + 1);
+    } else {
+      setIsCorrect(false);
+    }
+  };
+
+  const handleNext = () => {
+    if (queue.length <= 1) {
+      finish();
+      setCompleted(true);
+    } else {
+      setQueue(prev => prev.slice(1));
+      setCurrentQ(null);
+    }
+  };
+
+  if (completed) {
+    return (
+      <div className="flex flex-col items-center justify-center h-full p-8 animate-in zoom-in-95">
+        <div className="w-24 h-24 bg-green-100 rounded-full flex items-center justify-center mb-6 text-green-600 shadow-lg shadow-green-500/20">
+             <Check size={48} strokeWidth={3} />
+        </div>
+        <h2 className={`text-4xl font-bold mb-4 tracking-tight ${darkMode ? 'text-white' : 'text-gray-900'}`}>Session Complete!</h2>
+        <div className="text-center mb-12">
+            <p className={`text-lg font-medium ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>You scored</p>
+            <p className="text-6xl font-bold text-indigo-600 mt-2 tracking-tighter">{score} <span className="text-3xl text-gray-400 font-medium">/ {set.cards.length}</span></p>
+        </div>
+        <button onClick={onBack} className={`px-10 py-4 rounded-full font-bold text-lg transition-all hover:scale-105 active:scale-95 shadow-lg ${darkMode ? 'bg-white text-black hover:bg-gray-100' : 'bg-black text-white hover:bg-gray-800'}`}>Back to Set</button>
+      </div>
+    );
+  }
+
+  if (!currentQ) return <div className="p-8 text-center">Loading...</div>;
+
+  return (
+    <div className="max-w-2xl mx-auto h-full flex flex-col p-4">
+      <div className="flex justify-between items-center mb-8">
+        <button onClick={onBack} className={`${darkMode ? 'text-gray-400 hover:text-white' : 'text-gray-500 hover:text-gray-900'} font-semibold transition-colors`}>Quit</button>
+        <span className={`text-sm font-bold tracking-wide px-3 py-1 rounded-full ${darkMode ? 'bg-[#2c2c2e] text-gray-300' : 'bg-gray-100 text-gray-500'}`}>{set.cards.length - queue.length + 1} / {set.cards.length}</span>
+      </div>
+
+      <div className={`rounded-3xl shadow-sm p-10 mb-8 flex-grow-0 min-h-[240px] flex items-center justify-center text-center border transition-all ${darkMode ? 'bg-[#1c1c1e] border-gray-800' : 'bg-white border-gray-100'}`}>
+        <div>
+            <span className={`text-xs uppercase font-bold tracking-widest mb-4 block opacity-60 ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>Definition</span>
+            <div className={`text-2xl font-medium leading-relaxed ${darkMode ? 'text-white' : 'text-gray-900'}`}><CardContent text={currentQ.def} image={currentQ.defImage} /></div>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 gap-4">
+        <span className={`text-xs uppercase font-bold tracking-widest mb-2 ml-1 opacity-60 ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>Choose the matching term</span>
+        {options.map(opt => {
+          let statusClass = darkMode 
+            ? "border-gray-800 bg-[#1c1c1e] hover:bg-[#2c2c2e]" 
+            : "border-gray-100 bg-white hover:border-indigo-200 hover:shadow-md";
+          
+          let textClass = darkMode ? 'text-gray-200' : 'text-gray-800';
+
+          if (selectedOption) {
+             if (opt.id === currentQ.id) {
+               statusClass = "border-green-500 bg-green-500 text-white";
+               textClass = "text-white";
+             } else if (opt.id === selectedOption.id && !isCorrect) {
+               statusClass = "border-red-500 bg-red-500 text-white";
+               textClass = "text-white";
+             } else {
+               statusClass = darkMode ? "border-gray-800 opacity-30" : "border-gray-100 opacity-30";
+             }
+          }
+
+          return (
+            <button
+              key={opt.id}
+              onClick={() => handleAnswer(opt)}
+              disabled={!!selectedOption}
+              className={`w-full p-5 text-left rounded-2xl border-2 transition-all duration-200 font-semibold text-lg ${statusClass} ${!selectedOption ? textClass : ''}`}
+            >
+              <CardContent text={opt.term} image={opt.termImage} imageClassName="max-h-24 !mx-0" />
+            </button>
+          );
+        })}
+      </div>
+
+      {selectedOption && (
+        <div className="mt-8 animate-in slide-in-from-bottom-4 fade-in">
+          <button 
+            onClick={handleNext}
+            className="w-full py-4 bg-indigo-600 text-white rounded-2xl font-bold text-lg hover:bg-indigo-700 shadow-lg shadow-indigo-500/30 transition-all active:scale-95"
+          >
+            {queue.length === 1 ? 'Finish' : 'Next Question'}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+// 7. WRITE MODE COMPONENT
+const WriteMode = ({ set, onBack, onSessionEnd = null, darkMode }) => {
+  const [answerWith, setAnswerWith] = useState('term');
+  const [queue, setQueue] = useState(() => shuffleArray(set.cards));
+  const [missed, setMissed] = useState([]);
+  const [round, setRound] = useState(1);
+  const [firstTryCorrect, setFirstTryCorrect] = useState(0);
+  const [input, setInput] = useState('');
+  const [feedback, setFeedback] = useState(null); // a grade from gradeAnswerWithAI, plus `overridden`
+  const [checking, setChecking] = useState(false);
+  const [completed, setCompleted] = useState(false);
+  const inputRef = useRef(null);
+  const { record, finish } = useStudySession(set, 'write', onSessionEnd);
+
+  const currentCard = queue[0];
+
+  useEffect(() => {
+    inputRef.current?.focus();
+  }, [currentCard, answerWith]);
+
+  const restart = (side = answerWith) => {
+    finish();
+    setAnswerWith(side);
+    setQueue(shuffleArray(set.cards));
+    setMissed([]);
+    setRound(1);
+    setFirstTryCorrect(0);
     setInput('');
-    setIsLoading(true);
+    setFeedback(null);
+    setCompleted(false);
+  };
 
-    const aiResponseText = await chatWithAI(input, activeSet, messages);
-    
-    setMessages(prev => [...prev, { role: 'ai', text: aiResponseText }]);
-    setIsLoading(false);
+  const expected = answerWith === 'term' ? currentCard?.term : currentCard?.def;
+
+  const handleContinue = () => {
+    const nextMissed = feedback.correct ? missed : [...missed, currentCard];
+    if (round === 1 && feedback.correct) setFirstTryCorrect(n => n + 1);
+    record(currentCard.id, feedback.correct);
+    const rest = queue.slice(1);
+    setInput('');
+    setFeedback(null);
+
+    if (rest.length > 0) {
+      setQueue(rest);
+      setMissed(nextMissed);
+    } else if (nextMissed.length > 0) {
+      // Re-queue everything missed until a round goes by clean
+      setQueue(shuffleArray(nextMissed));
+      setMissed([]);
+      setRound(r => r + 1);
+    } else {
+      finish();
+      setCompleted(true);
+    }
   };
 
-  if (!activeSet && !isOpen) return null;
+  const handleSubmit = async () => {
+    if (checking) return;
+    if (feedback) return handleContinue();
+    if (!input.trim()) return;
+    setChecking(true);
+    setFeedback(await gradeAnswerWithAI(input, currentCard, answerWith));
+    setChecking(false);
+  };
+
+  const handleOverride = () => {
+    setFeedback(prev => ({ ...prev, correct: true, overridden: true }));
+  };
+
+  if (completed) {
+    return (
+      <div className="flex flex-col items-center justify-center h-full p-8 animate-in zoom-in-95">
+        <div className="w-24 h-24 bg-green-100 rounded-full flex items-center justify-center mb-6 text-green-600 shadow-lg shadow-green-500/20">
+             <Check size={48} strokeWidth={3} />
+        </div>
+        <h2 className={`text-4xl font-bold mb-4 tracking-tight ${darkMode ? 'text-white' : 'text-gray-900'}`}>Clean Round!</h2>
+        <div className="text-center mb-12">
+            <p className={`text-lg font-medium ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>Right on the first try</p>
+            <p className="text-6xl font-bold text-indigo-600 mt-2 tracking-tighter">{firstTryCorrect} <span className="text-3xl text-gray-400 font-medium">/ {set.cards.length}</span></p>
+            <p className={`text-sm font-medium mt-4 ${darkMode ? 'text-gray-500' : 'text-gray-400'}`}>{round} {round === 1 ? 'round' : 'rounds'}</p>
+        </div>
+        <div className="flex gap-4">
+          <button onClick={() => restart()} className="px-8 py-4 bg-indigo-600 text-white rounded-full font-bold hover:bg-indigo-700 hover:shadow-lg hover:scale-105 active:scale-95 transition-all">Write Again</button>
+          <button onClick={onBack} className={`px-8 py-4 rounded-full font-bold transition-all hover:scale-105 active:scale-95 ${darkMode ? 'bg-[#2c2c2e] text-white hover:bg-[#3a3a3c]' : 'bg-gray-100 text-gray-900 hover:bg-gray-200'}`}>Back to Set</button>
+        </div>
+      </div>
+    );
+  }
+
+  if (!currentCard) return <div className="p-8 text-center">Loading...</div>;
+
+  const inputClass = darkMode ? 'bg-[#2c2c2e] text-white placeholder-gray-500' : 'bg-white text-gray-900 placeholder-gray-400';
 
   return (
-    <div className="fixed bottom-6 right-6 z-50 flex flex-col items-end pointer-events-none">
-      {/* Chat Window */}
-      {isOpen && (
-        <div className={`mb-4 w-80 md:w-96 h-[500px] rounded-3xl shadow-2xl border flex flex-col overflow-hidden pointer-events-auto animate-in slide-in-from-bottom-10 fade-in duration-300 ${darkMode ? 'bg-[#1c1c1e] border-gray-800' : 'bg-white/90 backdrop-blur-xl border-gray-200/50'}`}>
-          {/* Header */}
-          <div className={`p-4 flex justify-between items-center border-b ${darkMode ? 'bg-[#2c2c2e] border-gray-800' : 'bg-white/50 border-gray-100'}`}>
-            <div className="flex items-center gap-3">
-              <div className="w-8 h-8 rounded-full bg-gradient-to-tr from-indigo-500 to-purple-500 flex items-center justify-center text-white shadow-md">
-                 <Bot size={16} />
-              </div>
-              <div>
-                <h3 className={`font-bold text-sm ${darkMode ? 'text-white' : 'text-gray-900'}`}>AI Tutor</h3>
-                <p className="text-xs text-green-500 font-medium">Online</p>
-              </div>
-            </div>
-            <button onClick={() => setIsOpen(false)} className={`p-2 rounded-full transition ${darkMode ? 'hover:bg-gray-700 text-gray-400' : 'hover:bg-gray-100 text-gray-500'}`}>
-              <X size={18} />
+    <div className="max-w-2xl mx-auto h-full flex flex-col p-4">
+      <div className="flex justify-between items-center mb-8">
+        <button onClick={onBack} className={`${darkMode ? 'text-gray-400 hover:text-white' : 'text-gray-500 hover:text-gray-900'} font-semibold transition-colors`}>Quit</button>
+        <div className={`flex p-1 rounded-full text-sm font-semibold ${darkMode ? 'bg-[#2c2c2e]' : 'bg-gray-100'}`}>
+          {[['term', 'Answer with term'], ['def', 'Answer with definition']].map(([side, label]) => (
+            <button
+              key={side}
+              onClick={() => side !== answerWith && restart(side)}
+              className={`px-4 py-1.5 rounded-full transition-all ${answerWith === side ? 'bg-indigo-600 text-white shadow' : darkMode ? 'text-gray-400 hover:text-white' : 'text-gray-500 hover:text-gray-900'}`}
+            >
+              {label}
             </button>
+          ))}
+        </div>
+        <span className={`text-sm font-bold tracking-wide px-3 py-1 rounded-full ${darkMode ? 'bg-[#2c2c2e] text-gray-300' : 'bg-gray-100 text-gray-500'}`}>Round {round} · {queue.length} left</span>
+      </div>
+
+      <div className={`rounded-3xl shadow-sm p-10 mb-8 flex-grow-0 min-h-[240px] flex items-center justify-center text-center border transition-all ${darkMode ? 'bg-[#1c1c1e] border-gray-800' : 'bg-white border-gray-100'}`}>
+        <div>
+            <span className={`text-xs uppercase font-bold tracking-widest mb-4 block opacity-60 ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>{answerWith === 'term' ? 'Definition' : 'Term'}</span>
+            <p className={`text-2xl font-medium leading-relaxed ${darkMode ? 'text-white' : 'text-gray-900'}`}>{answerWith === 'term' ? currentCard.def : currentCard.term}</p>
+        </div>
+      </div>
+
+      <span className={`text-xs uppercase font-bold tracking-widest mb-3 ml-1 opacity-60 ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>Type the {answerWith === 'term' ? 'term' : 'definition'}</span>
+      <input
+        ref={inputRef}
+        value={input}
+        onChange={(e) => setInput(e.target.value)}
+        onKeyDown={(e) => e.key === 'Enter' && handleSubmit()}
+        readOnly={!!feedback || checking}
+        placeholder="Your answer"
+        className={`w-full p-5 rounded-2xl border-2 outline-none text-lg font-semibold transition-all ${inputClass} ${
+          !feedback ? (darkMode ? 'border-gray-800 focus:border-indigo-500' : 'border-gray-100 focus:border-indigo-300')
+            : feedback.correct ? 'border-green-500' : feedback.verdict === 'partial' ? 'border-amber-500' : 'border-red-500'
+        }`}
+      />
+
+      {feedback && (
+        <div className={`mt-6 p-6 rounded-2xl animate-in slide-in-from-bottom-4 fade-in ${feedback.correct ? 'bg-green-500/10 text-green-600' : feedback.verdict === 'partial' ? 'bg-amber-500/10 text-amber-600' : 'bg-red-500/10 text-red-600'}`}>
+          <p className="font-bold text-lg flex items-center">
+            {feedback.correct ? <Check size={20} className="mr-2" /> : <X size={20} className="mr-2" />}
+            {feedback.overridden ? 'Marked as correct' : feedback.correct ? (feedback.typo ? 'Correct — watch the spelling' : 'Correct!') : feedback.verdict === 'partial' ? 'Partly right' : 'Not quite'}
+          </p>
+          {feedback.explanation && !feedback.overridden && (
+            <p className={`mt-2 font-medium ${darkMode ? 'text-gray-300' : 'text-gray-700'}`}>{feedback.explanation}</p>
+          )}
+          {(!feedback.correct || feedback.typo) && (
+            <p className={`mt-2 font-medium ${darkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+              Correct answer: <span className="font-bold">{expected}</span>
+            </p>
+          )}
+        </div>
+      )}
+
+      <div className="mt-8 flex gap-4">
+        {feedback && !feedback.correct && (
+          <button
+            onClick={handleOverride}
+            className={`px-6 py-4 rounded-2xl font-bold transition-all active:scale-95 ${darkMode ? 'bg-[#2c2c2e] text-white hover:bg-[#3a3a3c]' : 'bg-gray-100 text-gray-900 hover:bg-gray-200'}`}
+          >
+            I was right
+          </button>
+        )}
+        <button
+          onClick={handleSubmit}
+          disabled={checking || (!feedback && !input.trim())}
+          className="flex-1 py-4 bg-indigo-600 text-white rounded-2xl font-bold text-lg hover:bg-indigo-700 shadow-lg shadow-indigo-500/30 transition-all active:scale-95 disabled:opacity-50 disabled:shadow-none flex items-center justify-center"
+        >
+          {checking ? <><Loader2 size={20} className="mr-2 animate-spin" /> Checking…</> : feedback ? 'Continue' : 'Check'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+// 8. PRACTICE TEST COMPONENT
+const TestMode = ({ set, onBack, onSessionEnd = null, darkMode }) => {
+  const maxCount = set.cards.length;
+  const [counts, setCounts] = useState(() => ({
+    mc: Math.min(5, maxCount),
+    tf: Math.min(5, maxCount),
+    written: Math.min(3, maxCount),
+    matching: maxCount >= 4 ? 4 : 0
+  }));
+  const [questions, setQuestions] = useState(null);
+  const [answers, setAnswers] = useState({});
+  const [result, setResult] = useState(null);
+  const [grading, setGrading] = useState(false);
+  const { record, finish } = useStudySession(set, 'test', onSessionEnd);
+
+  const setAnswer = (questionId, value) => setAnswers(prev => ({ ...prev, [questionId]: value }));
+
+  const handleGenerate = () => {
+    setQuestions(generateTest(set.cards, counts));
+    setAnswers({});
+    setResult(null);
+  };
+
+  const handleSubmit = async () => {
+    setGrading(true);
+    const written = questions.filter(q => q.type === 'written');
+    const writtenGrades = await gradeAnswersWithAI(written.map(q => ({ answer: answers[q.id] || '', card: q.card, side: 'term' })));
+    const grades = Object.fromEntries(written.map((q, i) => [q.id, writtenGrades[i]]));
+    setGrading(false);
+    const scored = scoreTest(questions, answers, grades);
+    scored.results.forEach(r => record(r.cardId, r.correct));
+    finish();
+    setResult(scored);
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
+
+  const panelClass = `rounded-3xl shadow-sm border p-8 ${darkMode ? 'bg-[#1c1c1e] border-gray-800' : 'bg-white border-gray-100'}`;
+  const labelClass = `text-xs uppercase font-bold tracking-widest opacity-60 ${darkMode ? 'text-gray-400' : 'text-gray-500'}`;
+  const inputClass = darkMode ? 'bg-[#2c2c2e] text-white' : 'bg-gray-100 text-gray-900';
+  const choiceClass = (selected) => `p-4 text-left rounded-2xl border-2 font-semibold transition-all ${selected
+    ? 'border-indigo-500 bg-indigo-500/10 text-indigo-500'
+    : darkMode ? 'border-gray-800 text-gray-200 hover:bg-[#2c2c2e]' : 'border-gray-100 text-gray-800 hover:border-indigo-200'}`;
+
+  // Setup
+  if (!questions) {
+    const totalQuestions = counts.mc + counts.tf + counts.written + (counts.matching > 1 ? 1 : 0);
+    return (
+      <div className="max-w-2xl mx-auto h-full flex flex-col p-4 animate-in fade-in">
+        <button onClick={onBack} className={`${darkMode ? 'text-gray-400 hover:text-white' : 'text-gray-500 hover:text-gray-900'} font-semibold transition-colors flex items-center mb-8`}>
+          <ArrowLeft size={18} className="mr-2" /> Back to Set
+        </button>
+        <h1 className={`text-3xl font-bold tracking-tight mb-2 ${darkMode ? 'text-white' : 'text-gray-900'}`}>Practice Test</h1>
+        <p className={`text-lg mb-8 ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>Choose how many questions of each type to include.</p>
+        <div className={`${panelClass} space-y-5 mb-8`}>
+          {TEST_SECTIONS.map(section => (
+            <div key={section.type} className="flex items-center justify-between">
+              <span className={`font-semibold ${darkMode ? 'text-gray-200' : 'text-gray-800'}`}>
+                {section.label}
+                {section.type === 'matching' && <span className="text-sm font-medium text-gray-400 ml-2">(pairs)</span>}
+              </span>
+              <input
+                type="number"
+                min={0}
+                max={maxCount}
+                value={counts[section.type]}
+                onChange={(e) => setCounts(prev => ({ ...prev, [section.type]: Math.max(0, Math.min(maxCount, Number(e.target.value) || 0)) }))}
+                className={`w-24 rounded-xl px-4 py-2 outline-none text-right font-semibold ${inputClass}`}
+              />
+            </div>
+          ))}
+        </div>
+        <button
+          onClick={handleGenerate}
+          disabled={totalQuestions === 0}
+          className="w-full py-4 bg-indigo-600 text-white rounded-2xl font-bold text-lg hover:bg-indigo-700 shadow-lg shadow-indigo-500/30 transition-all active:scale-95 disabled:opacity-50 disabled:shadow-none"
+        >
+          Generate Test
+        </button>
+      </div>
+    );
+  }
+
+  // Results
+  if (result) {
+    const percent = result.total ? Math.round((result.correct / result.total) * 100) : 0;
+    return (
+      <div className="max-w-3xl mx-auto p-4 animate-in fade-in">
+        <div className={`${panelClass} text-center mb-8`}>
+          <Trophy size={48} className="text-yellow-500 mx-auto mb-4" />
+          <p className={`text-lg font-medium ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>Your score</p>
+          <p className="text-6xl font-bold text-indigo-600 mt-2 tracking-tighter">{percent}%</p>
+          <p className={`mt-2 font-medium ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>{result.correct} of {result.total} correct</p>
+          <div className="flex gap-4 justify-center mt-8">
+            <button onClick={handleGenerate} className="px-8 py-4 bg-indigo-600 text-white rounded-full font-bold hover:bg-indigo-700 hover:scale-105 active:scale-95 transition-all">New Test</button>
+            <button onClick={onBack} className={`px-8 py-4 rounded-full font-bold transition-all hover:scale-105 active:scale-95 ${darkMode ? 'bg-[#2c2c2e] text-white hover:bg-[#3a3a3c]' : 'bg-gray-100 text-gray-900 hover:bg-gray-200'}`}>Back to Set</button>
           </div>
-          
-          {/* Messages */}
-          <div className={`flex-1 overflow-y-auto p-4 space-y-4 ${darkMode ? 'bg-[#1c1c1e]' : 'bg-gray-50/50'}`}>
-            {messages.map((msg, idx) => (
-              <div key={idx} className={`flex ${msg.role === 'user' ? 'justify-end' : 'justify-start'}`}>
-                <div className={`max-w-[85%] px-4 py-3 rounded-2xl text-sm leading-relaxed shadow-sm ${
-                  msg.role === 'user' 
-                    ? 'bg-indigo-600 text-white rounded-tr-sm' 
-                    : darkMode 
-                      ? 'bg-[#2c2c2e] text-gray-200 rounded-tl-sm' 
-                      : 'bg-white text-gray-700 rounded-tl-sm'
-                }`}>
-                  {msg.text}
-                </div>
+        </div>
+
+        {result.mistakes.length > 0 && (
+          <div className="space-y-4">
+            <h2 className={`text-xl font-bold tracking-tight ${darkMode ? 'text-white' : 'text-gray-900'}`}>Review your mistakes ({result.mistakes.length})</h2>
+            {result.mistakes.map((m, idx) => (
+              <div key={idx} className={panelClass}>
+                <span className={labelClass}>{TEST_SECTIONS.find(sec => sec.type === m.type).label}</span>
+                <p className={`text-lg font-medium mt-2 mb-4 ${darkMode ? 'text-white' : 'text-gray-900'}`}>{m.prompt}</p>
+                <p className="text-red-500 font-semibold flex items-start"><X size={18} className="mr-2 mt-0.5 flex-shrink-0" /> {m.given || <span className="italic opacity-70">No answer</span>}</p>
+                <p className="text-green-600 font-semibold flex items-start mt-2"><Check size={18} className="mr-2 mt-0.5 flex-shrink-0" /> {m.expected}</p>
+                {m.note && <p className={`text-sm mt-3 ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>{m.note}</p>}
               </div>
             ))}
-            {isLoading && (
-              <div className="flex justify-start">
-                <div className={`px-4 py-3 rounded-2xl rounded-tl-sm shadow-sm ${darkMode ? 'bg-[#2c2c2e]' : 'bg-white'}`}>
-                  <Loader2 size={16} className="animate-spin text-indigo-600" />
+          </div>
+        )}
+      </div>
+    );
+  }
+
+  // Taking the test
+  return (
+    <div className="max-w-3xl mx-auto p-4 animate-in fade-in">
+      <div className="flex justify-between items-center mb-8">
+        <button onClick={onBack} className={`${darkMode ? 'text-gray-400 hover:text-white' : 'text-gray-500 hover:text-gray-900'} font-semibold transition-colors`}>Quit</button>
+        <span className={`text-sm font-bold tracking-wide px-3 py-1 rounded-full ${darkMode ? 'bg-[#2c2c2e] text-gray-300' : 'bg-gray-100 text-gray-500'}`}>{questions.length} questions</span>
+      </div>
+
+      <div className="space-y-6">
+        {questions.map((q, idx) => (
+          <div key={q.id} className={panelClass}>
+            <span className={labelClass}>{idx + 1}. {TEST_SECTIONS.find(sec => sec.type === q.type).label}</span>
+
+            {q.type === 'mc' && (
+              <>
+                <p className={`text-xl font-medium my-6 ${darkMode ? 'text-white' : 'text-gray-900'}`}>{q.card.def}</p>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+                  {q.options.map(opt => (
+                    <button key={opt.id} onClick={() => setAnswer(q.id, opt.id)} className={choiceClass(answers[q.id] === opt.id)}>{opt.term}</button>
+                  ))}
                 </div>
-              </div>
+              </>
             )}
-            <div ref={messagesEndRef} />
-          </div>
 
-          {/* Input */}
-          <div className={`p-4 border-t ${darkMode ? 'bg-[#2c2c2e] border-gray-800' : 'bg-white/80 border-gray-100'}`}>
-            <div className={`flex items-center rounded-full px-2 py-2 ${darkMode ? 'bg-[#1c1c1e]' : 'bg-gray-100'}`}>
-                <input 
-                type="text" 
-                value={input}
-                onChange={(e) => setInput(e.target.value)}
-                onKeyDown={(e) => e.key === 'Enter' && handleSend()}
-                placeholder="Ask a question..."
-                className={`flex-1 bg-transparent border-none outline-none px-4 text-sm ${darkMode ? 'text-white placeholder-gray-500' : 'text-gray-900 placeholder-gray-400'}`}
+            {q.type === 'tf' && (
+              <>
+                <p className={`text-xl font-bold mt-6 ${darkMode ? 'text-white' : 'text-gray-900'}`}>{q.card.term}</p>
+                <p className={`text-lg my-4 ${darkMode ? 'text-gray-300' : 'text-gray-600'}`}>{q.shownDef}</p>
+                <div className="grid grid-cols-2 gap-3">
+                  {[true, false].map(value => (
+                    <button key={String(value)} onClick={() => setAnswer(q.id, value)} className={choiceClass(answers[q.id] === value)}>{value ? 'True' : 'False'}</button>
+                  ))}
+                </div>
+              </>
+            )}
+
+            {q.type === 'written' && (
+              <>
+                <p className={`text-xl font-medium my-6 ${darkMode ? 'text-white' : 'text-gray-900'}`}>{q.card.def}</p>
+                <input
+                  value={answers[q.id] || ''}
+                  onChange={(e) => setAnswer(q.id, e.target.value)}
+                  placeholder="Type the term"
+                  className={`w-full rounded-2xl px-4 py-3 outline-none text-lg font-semibold ${inputClass}`}
                 />
-                <button 
-                onClick={handleSend} 
-                disabled={isLoading || !input.trim()}
-                className="p-2 bg-indigo-600 text-white rounded-full hover:bg-indigo-700 disabled:opacity-50 disabled:cursor-not-allowed transition shadow-sm active:scale-95"
-                >
-                <Send size={16} />
-                </button>
-            </div>
+              </>
+            )}
+
+            {q.type === 'matching' && (
+              <div className="mt-6 space-y-6">
+                <ol className={`space-y-2 ${darkMode ? 'text-gray-300' : 'text-gray-600'}`}>
+                  {q.defs.map((d, i) => (
+                    <li key={d.id}><span className="font-bold text-indigo-500 mr-2">{String.fromCharCode(65 + i)}.</span>{d.content}</li>
+                  ))}
+                </ol>
+                <div className="space-y-3">
+                  {q.terms.map(term => (
+                    <div key={term.id} className="flex items-center justify-between gap-4">
+                      <span className={`font-semibold ${darkMode ? 'text-gray-100' : 'text-gray-900'}`}>{term.content}</span>
+                      <select
+                        value={answers[q.id]?.[term.id] || ''}
+                        onChange={(e) => setAnswer(q.id, { ...answers[q.id], [term.id]: e.target.value })}
+                        className={`rounded-xl px-4 py-2 outline-none font-semibold ${inputClass}`}
+                      >
+                        <option value="">—</option>
+                        {q.defs.map((d, i) => <option key={d.id} value={d.id}>{String.fromCharCode(65 + i)}</option>)}
+                      </select>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
           </div>
-        </div>
-      )}
+        ))}
+      </div>
 
-      {/* Toggle Button */}
-      <button 
-        onClick={() => setIsOpen(!isOpen)}
-        className="pointer-events-auto p-4 bg-gradient-to-r from-indigo-600 to-purple-600 text-white rounded-full shadow-xl shadow-indigo-500/30 hover:scale-105 active:scale-95 transition-all duration-300 flex items-center gap-2 group z-50"
+      <button
+        onClick={handleSubmit}
+        disabled={grading}
+        className="w-full mt-8 py-4 bg-indigo-600 text-white rounded-2xl font-bold text-lg hover:bg-indigo-700 shadow-lg shadow-indigo-500/30 transition-all active:scale-95 disabled:opacity-50 flex items-center justify-center"
       >
-        {isOpen ? <X size={24} /> : <MessageCircle size={24} />}
-        {!isOpen && <span className="max-w-0 overflow-hidden group-hover:max-w-xs transition-all duration-300 whitespace-nowrap font-semibold">Ask AI</span>}
+        {grading ? <><Loader2 size={20} className="mr-2 animate-spin" /> Grading…</> : 'Submit Test'}
       </button>
     </div>
   );
 };
 
-// 3. AI GENERATOR COMPONENT
-const AIGenerator = ({ onSave, onCancel, darkMode }) => {
+// 9. IMPORT PANEL COMPONENT
+const ImportPanel = ({ onImport, onClose, darkMode }) => {
   const [text, setText] = useState('');
-  const [file, setFile] = useState(null); // { base64, mimeType, preview, name, type }
-  const [isGenerating, setIsGenerating] = useState(false);
-  const [error, setError] = useState(null);
+  const [termSepId, setTermSepId] = useState('tab');
+  const [cardSepId, setCardSepId] = useState('newline');
+  const [customTermSep, setCustomTermSep] = useState('');
+  const [customCardSep, setCustomCardSep] = useState('');
+  const [fileName, setFileName] = useState(null);
   const fileInputRef = useRef(null);
 
-  const handleFileChange = (e) => {
+  const termSep = termSepId === 'custom' ? customTermSep : TERM_SEPARATORS.find(s => s.id === termSepId).value;
+  const cardSep = cardSepId === 'custom' ? customCardSep.replace(/\\n/g, '\n') : CARD_SEPARATORS.find(s => s.id === cardSepId).value;
+  const parsed = useMemo(() => parseCardText(text, termSep, cardSep), [text, termSep, cardSep]);
+
+  const handleFileChange = async (e) => {
     const selectedFile = e.target.files[0];
     if (!selectedFile) return;
+    // Guess the separator from the extension; the user can still change it
+    if (selectedFile.name.toLowerCase().endsWith('.csv')) setTermSepId('comma');
+    else setTermSepId('tab');
+    setCardSepId('newline');
+    setFileName(selectedFile.name);
+    setText(await selectedFile.text());
+    e.target.value = '';
+  };
 
-    // Helper for Word docs
-    if (selectedFile.type === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document') {
-        setError("Word docs (.docx) aren't supported directly. Please 'Save as PDF' and upload that for best results!");
-        return;
-    }
+  const handleImport = () => {
+    onImport(parsed);
+    setText('');
+    setFileName(null);
+  };
+
+  const inputClass = darkMode ? 'bg-[#2c2c2e] text-white' : 'bg-gray-100 text-gray-900';
+  const labelClass = `block text-xs font-bold uppercase tracking-wider mb-2 ml-1 ${darkMode ? 'text-gray-500' : 'text-gray-400'}`;
+
+  const renderSeparatorPicker = (label, options, selectedId, onSelect, customValue, onCustomChange) => (
+    <div>
+      <label className={labelClass}>{label}</label>
+      <div className="flex flex-wrap gap-2">
+        {options.map(opt => (
+          <button
+            key={opt.id}
+            onClick={() => onSelect(opt.id)}
+            className={`px-4 py-2 rounded-full text-sm font-semibold transition-all ${selectedId === opt.id ? 'bg-indigo-600 text-white' : darkMode ? 'bg-[#2c2c2e] text-gray-300 hover:bg-[#3a3a3c]' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'}`}
+          >
+            {opt.label}
+          </button>
+        ))}
+        {selectedId === 'custom' && (
+          <input
+            value={customValue}
+            onChange={(e) => onCustomChange(e.target.value)}
+            placeholder="e.g. |"
+            className={`w-24 px-4 py-2 rounded-full text-sm outline-none ${inputClass}`}
+          />
+        )}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className={`p-8 rounded-3xl shadow-sm border animate-in fade-in slide-in-from-top-2 ${darkMode ? 'bg-[#1c1c1e] border-gray-800' : 'bg-white border-gray-200'}`}>
+      <div className="flex justify-between items-center mb-6">
+        <h2 className={`text-xl font-bold tracking-tight flex items-center gap-2 ${darkMode ? 'text-white' : 'text-gray-900'}`}>
+          <Upload size={20} className="text-indigo-500" /> Import cards
+        </h2>
+        <button onClick={onClose} className={`p-2 rounded-full transition ${darkMode ? 'hover:bg-gray-700 text-gray-400' : 'hover:bg-gray-100 text-gray-500'}`}>
+          <X size={18} />
+        </button>
+      </div>
+
+      <input type="file" accept=".csv,.tsv,.txt,text/csv,text/tab-separated-values,text/plain" className="hidden" ref={fileInputRef} onChange={handleFileChange} />
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+        <div className="flex flex-col gap-4">
+          <textarea
+            value={text}
+            onChange={(e) => { setText(e.target.value); setFileName(null); }}
+            placeholder={'Paste your data here, e.g.\nWord 1\tDefinition 1\nWord 2\tDefinition 2'}
+            className={`w-full h-48 resize-none rounded-2xl p-4 outline-none font-mono text-sm ${inputClass}`}
+          />
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className={`self-start px-5 py-2.5 rounded-full text-sm font-semibold flex items-center transition-all ${darkMode ? 'bg-[#2c2c2e] text-gray-300 hover:bg-[#3a3a3c]' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'}`}
+          >
+            <FileIcon size={16} className="mr-2" /> {fileName || 'Upload .csv, .tsv or .txt'}
+          </button>
+          {renderSeparatorPicker('Between term and definition', TERM_SEPARATORS, termSepId, setTermSepId, customTermSep, setCustomTermSep)}
+          {renderSeparatorPicker('Between cards', CARD_SEPARATORS, cardSepId, setCardSepId, customCardSep, setCustomCardSep)}
+        </div>
+
+        <div className="flex flex-col">
+          <label className={labelClass}>Preview ({parsed.length} {parsed.length === 1 ? 'card' : 'cards'})</label>
+          <div className={`flex-1 min-h-48 max-h-80 overflow-y-auto rounded-2xl border divide-y ${darkMode ? 'border-gray-800 divide-gray-800' : 'border-gray-100 divide-gray-100'}`}>
+            {parsed.length === 0 ? (
+              <p className="p-4 text-sm text-gray-400">Nothing to import yet.</p>
+            ) : parsed.map(card => (
+              <div key={card.id} className="grid grid-cols-2 gap-4 p-3 text-sm">
+                <span className={`font-semibold ${darkMode ? 'text-gray-200' : 'text-gray-900'}`}>{card.term || <span className="italic text-red-400">Missing term</span>}</span>
+                <span className={darkMode ? 'text-gray-400' : 'text-gray-600'}>{card.def || <span className="italic text-red-400">Missing definition</span>}</span>
+              </div>
+            ))}
+          </div>
+          <button
+            onClick={handleImport}
+            disabled={parsed.length === 0}
+            className="mt-4 px-6 py-3 bg-indigo-600 text-white font-bold rounded-full hover:bg-indigo-700 shadow-lg shadow-indigo-500/30 active:scale-95 transition-all disabled:opacity-50 disabled:shadow-none"
+          >
+            Add {parsed.length} {parsed.length === 1 ? 'card' : 'cards'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
 
-    // Allowed types: Images, PDF
-    const allowedTypes = [
-      'image/png', 'image/jpeg', 'image/webp', 'image/heic',
-      'application/pdf'
-    ];
+// 10. CREATE/EDIT SET COMPONENT
+const CreateSet = ({ onSave, onCancel, editSet = null, folders = [], defaultFolderId = null, speech = null, darkMode }) => {
+  const [title, setTitle] = useState(editSet ? editSet.title : '');
+  const [desc, setDesc] = useState(editSet ? editSet.description : '');
+  const [folderId, setFolderId] = useState(editSet ? editSet.folderId : defaultFolderId);
+  const [tags, setTags] = useState(editSet?.tags?.join(', ') ?? '');
+  const [cards, setCards] = useState(editSet ? editSet.cards : [
+    { id: generateId(), term: '', def: '' },
+    { id: generateId(), term: '', def: '' },
+    { id: generateId(), term: '', def: '' }
+  ]);
+  const [showImport, setShowImport] = useState(false);
+  const [speechSettings, setSpeechSettings] = useState(() => getSpeechSettings(editSet));
+  const voices = useVoices(speech);
 
-    if (!allowedTypes.includes(selectedFile.type)) {
-      setError("Unsupported file type. Please upload an Image or PDF.");
-      return;
-    }
+  const updateVoice = (side, changes) => {
+    setSpeechSettings(prev => ({ ...prev, [side]: { ...prev[side], ...changes } }));
+  };
 
-    const reader = new FileReader();
-    reader.onloadend = () => {
-      // result is like "data:application/pdf;base64,......"
-      const base64String = reader.result.split(',')[1];
-      setFile({
-        base64: base64String,
-        mimeType: selectedFile.type,
-        preview: selectedFile.type.startsWith('image/') ? reader.result : null,
-        name: selectedFile.name,
-        type: selectedFile.type
-      });
-      setError(null);
-    };
-    reader.readAsDataURL(selectedFile);
+  const addCard = () => {
+    setCards([...cards, { id: generateId(), term: '', def: '' }]);
   };
 
-  const handleRemoveFile = () => {
-    setFile(null);
-    if (fileInputRef.current) fileInputRef.current.value = '';
+  const updateCard = (id, field, value) => {
+    setCards(cards.map(c => c.id === id ? { ...c, [field]: value } : c));
   };
 
-  const handleGenerate = async () => {
-    if ((!text.trim() || text.length < 10) && !file) {
-      setError("Please enter text or upload a document to analyze.");
-      return;
-    }
+  const removeCard = (id) => {
+    setCards(cards.filter(c => c.id !== id));
+  };
 
-    setIsGenerating(true);
-    setError(null);
+  const importCards = (imported) => {
+    // Replace untouched placeholder rows rather than leaving blanks above the imported cards
+    setCards([...cards.filter(c => c.term.trim() || c.def.trim()), ...imported]);
+    setShowImport(false);
+  };
 
-    try {
-      const result = await generateFlashcardsAI(text, file?.base64, file?.mimeType);
-      // Add IDs to the generated cards
-      const processedCards = result.cards.map(c => ({ ...c, id: generateId() }));
-      
-      onSave({
-        id: generateId(),
-        title: result.title || "AI Generated Set",
-        description: result.description || "Created from your notes",
-        cards: processedCards
-      });
-    } catch (err) {
-      setError(err.message);
-      setIsGenerating(false);
-    }
+  const handleSave = () => {
+    if (!title.trim()) return alert('Please enter a title');
+    const validCards = cards.filter(hasCardContent);
+    if (validCards.length < 2) return alert('Please add at least 2 cards');
+    
+    onSave({
+      ...editSet,
+      id: editSet ? editSet.id : generateId(),
+      title,
+      description: desc,
+      folderId: folderId || null,
+      tags: normalizeTags(tags.split(',')),
+      speech: speechSettings,
+      cards: validCards,
+      createdAt: editSet?.createdAt ?? Date.now()
+    });
   };
 
-  const bgClass = darkMode ? 'bg-[#1c1c1e] border-gray-800 text-white' : 'bg-white border-gray-200 text-gray-900';
-  const textClass = darkMode ? 'text-gray-400' : 'text-gray-500';
+  const bgClass = darkMode ? 'bg-[#1c1c1e] border-gray-800' : 'bg-white border-gray-200';
+  const inputClass = darkMode ? 'bg-[#2c2c2e] text-white focus:ring-2 focus:ring-indigo-500/50' : 'bg-gray-100 text-gray-900 focus:bg-white focus:ring-2 focus:ring-indigo-500/20';
 
   return (
-    <div className="max-w-3xl mx-auto p-4 h-full flex flex-col animate-in fade-in duration-500">
-      <div className="mb-8">
-        <button onClick={onCancel} className={`${textClass} hover:text-indigo-500 font-semibold flex items-center mb-6 transition-colors`}>
-          <ArrowLeft size={18} className="mr-2" /> Back
-        </button>
-        <div className="flex items-center gap-4 mb-3">
-          <div className="w-12 h-12 bg-gradient-to-br from-purple-500 to-indigo-600 rounded-2xl flex items-center justify-center text-white shadow-lg shadow-purple-500/20">
-            <Sparkles size={24} />
-          </div>
-          <h1 className={`text-3xl font-bold tracking-tight ${darkMode ? 'text-white' : 'text-gray-900'}`}>Magic Generator</h1>
+    <div className="max-w-5xl mx-auto p-4 pb-20 animate-in fade-in">
+      <div className={`sticky top-0 z-20 py-6 mb-8 flex justify-between items-center backdrop-blur-xl border-b transition-colors ${darkMode ? 'bg-black/50 border-gray-800' : 'bg-white/80 border-gray-200/50'}`}>
+        <h1 className={`text-2xl font-bold tracking-tight ${darkMode ? 'text-white' : 'text-gray-900'}`}>{editSet ? 'Edit Study Set' : 'Create New Set'}</h1>
+        <div className="flex gap-4">
+           <button onClick={() => setShowImport(!showImport)} className={`px-5 py-2.5 font-semibold rounded-full transition-colors flex items-center ${showImport ? 'text-indigo-500' : darkMode ? 'text-gray-300 hover:bg-[#2c2c2e]' : 'text-gray-600 hover:bg-gray-100'}`}>
+             <Upload size={16} className="mr-2" /> Import
+           </button>
+           <button onClick={onCancel} className={`px-5 py-2.5 font-semibold rounded-full transition-colors ${darkMode ? 'text-gray-300 hover:bg-[#2c2c2e]' : 'text-gray-600 hover:bg-gray-100'}`}>Cancel</button>
+           <button onClick={handleSave} className="px-6 py-2.5 bg-indigo-600 text-white font-bold rounded-full hover:bg-indigo-700 shadow-lg shadow-indigo-500/30 active:scale-95 transition-all">
+            {editSet ? 'Save Changes' : 'Create'}
+           </button>
         </div>
-        <p className={`text-lg leading-relaxed ${textClass}`}>Paste your notes, or upload a PDF or Image. Our AI will scan it to build your deck instantly.</p>
       </div>
 
-      <div className="flex-1 flex flex-col gap-6 mb-8 relative">
-        {/* File Upload Section */}
-        <input 
-          type="file" 
-          accept="image/*,application/pdf,.docx" 
-          className="hidden" 
-          ref={fileInputRef}
-          onChange={handleFileChange}
-        />
-        
-        {file ? (
-          <div className={`relative w-full h-48 rounded-3xl border overflow-hidden group transition-all ${darkMode ? 'bg-[#2c2c2e] border-gray-700' : 'bg-gray-50 border-gray-200'}`}>
-            {file.preview ? (
-              <img src={file.preview} alt="Upload preview" className="w-full h-full object-contain" />
-            ) : (
-              <div className="w-full h-full flex flex-col items-center justify-center text-gray-500">
-                <FileIcon size={48} className="mb-3 text-indigo-500" />
-                <span className="font-bold text-lg">{file.name}</span>
-                <span className="text-xs uppercase mt-2 bg-gray-200/50 px-3 py-1 rounded-full text-gray-600 font-medium tracking-wide">{file.type.split('/')[1] || 'DOC'}</span>
-              </div>
-            )}
-            
-            <div className="absolute inset-0 bg-black/40 backdrop-blur-sm opacity-0 group-hover:opacity-100 transition-all duration-300 flex items-center justify-center gap-4">
-               <button onClick={() => fileInputRef.current?.click()} className="px-5 py-2 bg-white/90 text-gray-900 rounded-full font-bold text-sm hover:bg-white hover:scale-105 transition-all">Change</button>
-               <button onClick={handleRemoveFile} className="px-5 py-2 bg-red-500/90 text-white rounded-full font-bold text-sm hover:bg-red-600 hover:scale-105 transition-all">Remove</button>
+      <div className="space-y-8">
+        <div className={`p-8 rounded-3xl shadow-sm border ${bgClass}`}>
+          <div className="space-y-6">
+            <div>
+              <label className={`block text-xs font-bold uppercase tracking-wider mb-2 ml-1 ${darkMode ? 'text-gray-500' : 'text-gray-400'}`}>Title</label>
+              <input 
+                type="text" 
+                placeholder='e.g., "Biology - Chapter 22"'
+                className={`w-full text-lg font-medium rounded-2xl px-4 py-3 outline-none transition-all ${inputClass}`}
+                value={title}
+                onChange={(e) => setTitle(e.target.value)}
+              />
+            </div>
+            <div>
+              <label className={`block text-xs font-bold uppercase tracking-wider mb-2 ml-1 ${darkMode ? 'text-gray-500' : 'text-gray-400'}`}>Description</label>
+              <input 
+                type="text" 
+                placeholder='What is this set about?'
+                className={`w-full rounded-2xl px-4 py-3 outline-none transition-all ${inputClass}`}
+                value={desc}
+                onChange={(e) => setDesc(e.target.value)}
+              />
             </div>
-            <div className="absolute top-4 right-4 bg-black/60 backdrop-blur-md text-white text-xs px-3 py-1.5 rounded-full flex items-center font-medium">
-               {file.preview ? <ImageIcon size={12} className="mr-2" /> : <FileText size={12} className="mr-2" />} {file.name}
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              <div>
+                <label className={`block text-xs font-bold uppercase tracking-wider mb-2 ml-1 ${darkMode ? 'text-gray-500' : 'text-gray-400'}`}>Folder</label>
+                <select
+                  className={`w-full rounded-2xl px-4 py-3 outline-none transition-all cursor-pointer ${inputClass}`}
+                  value={folderId || ''}
+                  onChange={(e) => setFolderId(e.target.value || null)}
+                >
+                  <option value="">No folder</option>
+                  {folders
+                    .map(f => ({ id: f.id, label: getFolderPath(folders, f.id).map(p => p.name).join(' / ') }))
+                    .sort((a, b) => a.label.localeCompare(b.label))
+                    .map(f => <option key={f.id} value={f.id}>{f.label}</option>)}
+                </select>
+              </div>
+              <div>
+                <label className={`block text-xs font-bold uppercase tracking-wider mb-2 ml-1 ${darkMode ? 'text-gray-500' : 'text-gray-400'}`}>Tags</label>
+                <input
+                  type="text"
+                  placeholder='Comma separated, e.g. "biology, exam"'
+                  className={`w-full rounded-2xl px-4 py-3 outline-none transition-all ${inputClass}`}
+                  value={tags}
+                  onChange={(e) => setTags(e.target.value)}
+                />
+              </div>
             </div>
           </div>
-        ) : (
-          <button 
-            onClick={() => fileInputRef.current?.click()}
-            disabled={isGenerating}
-            className={`w-full h-32 border-2 border-dashed rounded-3xl flex flex-col items-center justify-center transition-all duration-300 group ${darkMode ? 'bg-[#1c1c1e] border-gray-700 text-gray-400 hover:border-indigo-500 hover:bg-[#2c2c2e]' : 'bg-gray-50 border-gray-300 text-gray-400 hover:border-indigo-500 hover:bg-indigo-50/30'}`}
-          >
-            <div className={`p-3 rounded-full mb-3 transition-colors ${darkMode ? 'bg-[#2c2c2e] group-hover:text-white' : 'bg-white group-hover:text-indigo-600 text-gray-400'}`}>
-               <Upload size={24} />
+        </div>
+
+        {speech?.isSupported && (
+          <div className={`p-8 rounded-3xl shadow-sm border ${bgClass}`}>
+            <h3 className={`text-xs font-bold uppercase tracking-wider mb-4 ml-1 ${darkMode ? 'text-gray-500' : 'text-gray-400'}`}>Audio</h3>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+              {CARD_SIDES.map(side => {
+                const settings = speechSettings[side.field];
+                const sample = cards.find(c => c[side.field].trim())?.[side.field];
+                return (
+                  <div key={side.field} className="space-y-3">
+                    <div className="flex items-center justify-between">
+                      <span className={`text-sm font-semibold ml-1 ${darkMode ? 'text-gray-300' : 'text-gray-700'}`}>{side.label}</span>
+                      <SpeakButton speech={speech} text={sample} voice={settings} darkMode={darkMode} />
+                    </div>
+                    <select
+                      className={`w-full rounded-2xl px-4 py-3 outline-none transition-all cursor-pointer ${inputClass}`}
+                      value={settings.lang}
+                      onChange={(e) => updateVoice(side.field, { lang: e.target.value, voiceURI: '' })}
+                    >
+                      {SPEECH_LANGUAGES.map(lang => <option key={lang.code} value={lang.code}>{lang.label}</option>)}
+                    </select>
+                    <select
+                      className={`w-full rounded-2xl px-4 py-3 outline-none transition-all cursor-pointer ${inputClass}`}
+                      value={settings.voiceURI}
+                      onChange={(e) => updateVoice(side.field, { voiceURI: e.target.value })}
+                    >
+                      <option value="">Default voice</option>
+                      {voicesForLanguage(voices, settings.lang).map(voice => <option key={voice.voiceURI} value={voice.voiceURI}>{voice.name} ({voice.lang})</option>)}
+                    </select>
+                  </div>
+                );
+              })}
             </div>
-            <span className="font-semibold text-sm">Click to upload PDF (or converted Word doc)</span>
-          </button>
+            <label className={`flex items-center gap-3 mt-6 ml-1 text-sm font-medium cursor-pointer ${darkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+              <input
+                type="checkbox"
+                checked={speechSettings.autoRead}
+                onChange={(e) => setSpeechSettings(prev => ({ ...prev, autoRead: e.target.checked }))}
+                className="w-4 h-4 accent-indigo-600"
+              />
+              Read cards aloud when flipped
+            </label>
+          </div>
         )}
 
-        {/* Text Area */}
-        <div className={`flex-1 rounded-3xl shadow-sm border p-1 flex flex-col relative overflow-hidden transition-all ${bgClass} ${darkMode ? 'focus-within:border-gray-600' : 'focus-within:border-indigo-300 focus-within:ring-4 focus-within:ring-indigo-100'}`}>
-          <textarea 
-            className={`flex-1 w-full h-full resize-none outline-none leading-relaxed p-5 rounded-2xl bg-transparent ${darkMode ? 'text-gray-100 placeholder-gray-600' : 'text-gray-800 placeholder-gray-400'}`}
-            placeholder="Or paste your text here..."
-            value={text}
-            onChange={(e) => setText(e.target.value)}
-            disabled={isGenerating}
-          />
-          {isGenerating && (
-            <div className={`absolute inset-0 backdrop-blur-md flex flex-col items-center justify-center z-10 ${darkMode ? 'bg-black/60' : 'bg-white/60'}`}>
-              <div className="relative">
-                 <div className="absolute inset-0 bg-indigo-500 blur-xl opacity-20 animate-pulse rounded-full"></div>
-                 <Loader2 size={48} className="text-indigo-600 animate-spin mb-6 relative z-10" />
+        {showImport && <ImportPanel onImport={importCards} onClose={() => setShowImport(false)} darkMode={darkMode} />}
+
+        <div className="space-y-4">
+          {cards.map((card, index) => (
+            <div key={card.id} className={`group p-6 rounded-3xl shadow-sm border transition-all ${bgClass} ${darkMode ? 'hover:border-gray-700' : 'hover:border-indigo-200 hover:shadow-md'}`}>
+              <div className={`flex justify-between mb-4 border-b pb-4 ${darkMode ? 'border-gray-800' : 'border-gray-100'}`}>
+                <span className="font-bold text-gray-400 px-3 py-1 bg-gray-100/10 rounded-full">{index + 1}</span>
+                <button onClick={() => removeCard(card.id)} className="text-gray-400 hover:text-red-500 transition p-2 hover:bg-red-50 rounded-full"><Trash2 size={18} /></button>
+              </div>
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                {CARD_SIDES.map(side => (
+                  <div key={side.field}>
+                    <label className={`text-xs font-bold uppercase tracking-wider mb-2 block ml-1 ${darkMode ? 'text-gray-500' : 'text-gray-400'}`}>{side.label}</label>
+                    <RichTextField
+                      value={card[side.field]}
+                      onChange={(value) => updateCard(card.id, side.field, value)}
+                      image={card[side.image]}
+                      onImageChange={(image) => updateCard(card.id, side.image, image)}
+                      placeholder={`Enter ${side.label.toLowerCase()}`}
+                      darkMode={darkMode}
+                    />
+                  </div>
+                ))}
               </div>
-              <p className="text-indigo-600 font-bold animate-pulse tracking-wide text-lg">
-                {file ? "Scanning document..." : "Analyzing text..."}
-              </p>
             </div>
-          )}
-        </div>
-      </div>
-
-      {error && (
-        <div className="mb-6 p-4 bg-red-500/10 border border-red-500/20 text-red-600 rounded-2xl text-sm flex items-center animate-in slide-in-from-bottom-2 font-medium">
-          <AlertCircle size={18} className="mr-3 flex-shrink-0" /> 
-          <span>{error}</span>
+          ))}
         </div>
-      )}
 
-      <div className="flex justify-end gap-4">
-        <button 
-          onClick={onCancel}
-          disabled={isGenerating}
-          className={`px-8 py-3.5 font-semibold rounded-full transition-all ${darkMode ? 'text-gray-300 hover:bg-[#2c2c2e]' : 'text-gray-600 hover:bg-gray-100'}`}
-        >
-          Cancel
-        </button>
         <button 
-          onClick={handleGenerate}
-          disabled={isGenerating || (!text.trim() && !file)}
-          className="px-8 py-3.5 bg-gradient-to-r from-indigo-600 to-purple-600 text-white font-bold rounded-full shadow-lg shadow-indigo-500/30 hover:shadow-xl hover:scale-105 active:scale-95 transition-all disabled:opacity-50 disabled:scale-100 disabled:shadow-none flex items-center"
+          onClick={addCard}
+          className={`w-full py-6 border-2 border-dashed rounded-3xl font-bold transition-all flex items-center justify-center gap-2 group ${darkMode ? 'bg-[#1c1c1e] border-gray-800 text-gray-400 hover:border-indigo-500 hover:text-indigo-400' : 'bg-white border-gray-300 text-gray-500 hover:border-indigo-500 hover:text-indigo-600 hover:bg-indigo-50'}`}
         >
-          {isGenerating ? 'Generating...' : <><Sparkles size={18} className="mr-2" /> Generate Set</>}
+          <div className={`p-2 rounded-full transition-colors ${darkMode ? 'bg-[#2c2c2e] group-hover:bg-indigo-500/20' : 'bg-gray-100 group-hover:bg-indigo-100'}`}>
+             <Plus size={24} /> 
+          </div>
+          Add Card
         </button>
       </div>
     </div>
   );
 };
 
-// 4. FLASHCARD COMPONENT
-const FlashcardMode = ({ set, onBack, darkMode }) => {
-  const [currentIndex, setCurrentIndex] = useState(0);
-  const [isFlipped, setIsFlipped] = useState(false);
+// 11. EXPORT MODAL COMPONENT
+const ExportModal = ({ set, onClose, darkMode }) => {
+  const [format, setFormat] = useState('csv');
+  const [separatorId, setSeparatorId] = useState('comma');
+  const [columns, setColumns] = useState(['term', 'def']);
+  const [header, setHeader] = useState(true);
+  const [includeProgress, setIncludeProgress] = useState(true);
+  const [swap, setSwap] = useState(false);
 
-  const nextCard = () => {
-    setIsFlipped(false);
-    setTimeout(() => {
-      setCurrentIndex((prev) => (prev + 1) % set.cards.length);
-    }, 150);
+  const separator = EXPORT_FIELD_SEPARATORS.find(s => s.id === separatorId);
+
+  const output = useMemo(() => {
+    if (format === 'json') return toQuizDeckJSON(set, { includeProgress });
+    if (format === 'anki') return toAnkiText(set, { separator, swap });
+    return toDelimitedText(set.cards, { columns, fieldSep: separator.value, header });
+  }, [format, set, includeProgress, separator, swap, columns, header]);
+
+  const selectFormat = (id) => {
+    setFormat(id);
+    if (id === 'anki' && separatorId === 'comma') setSeparatorId('tab');
   };
 
-  const prevCard = () => {
-    setIsFlipped(false);
-    setTimeout(() => {
-      setCurrentIndex((prev) => (prev - 1 + set.cards.length) % set.cards.length);
-    }, 150);
+  const toggleColumn = (id) => {
+    // Keep the columns in their canonical order regardless of click order
+    setColumns(prev => prev.includes(id) ? prev.filter(c => c !== id) : EXPORT_COLUMNS.map(c => c.id).filter(c => c === id || prev.includes(c)));
   };
 
-  useEffect(() => {
-    const handleKeyDown = (e) => {
-      if (e.key === 'ArrowRight') nextCard();
-      if (e.key === 'ArrowLeft') prevCard();
-      if (e.key === ' ' || e.key === 'Enter') setIsFlipped(prev => !prev);
-    };
-    window.addEventListener('keydown', handleKeyDown);
-    return () => window.removeEventListener('keydown', handleKeyDown);
-  }, [set.cards.length]);
+  const handleDownload = () => {
+    if (format === 'json') {
+      downloadFile(output, toFileName(set.title, 'json'), 'application/json');
+    } else if (format === 'anki') {
+      downloadFile(output, toFileName(set.title, 'txt'), 'text/plain');
+    } else {
+      const tsv = separator.value === '\t';
+      downloadFile(output, toFileName(set.title, tsv ? 'tsv' : 'csv'), tsv ? 'text/tab-separated-values' : 'text/csv');
+    }
+  };
 
-  const currentCard = set.cards[currentIndex];
-  const progress = ((currentIndex + 1) / set.cards.length) * 100;
+  const labelClass = `block text-xs font-bold uppercase tracking-wider mb-2 ml-1 ${darkMode ? 'text-gray-500' : 'text-gray-400'}`;
+  const pillClass = (active) => `px-4 py-2 rounded-full text-sm font-semibold transition-all ${active ? 'bg-indigo-600 text-white' : darkMode ? 'bg-[#2c2c2e] text-gray-300 hover:bg-[#3a3a3c]' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'}`;
+  const checkboxRow = (checked, onChange, label) => (
+    <label key={label} className={`flex items-center gap-3 text-sm font-medium cursor-pointer ${darkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+      <input type="checkbox" checked={checked} onChange={onChange} className="w-4 h-4 accent-indigo-600" /> {label}
+    </label>
+  );
 
   return (
-    <div className="flex flex-col h-full max-w-4xl mx-auto p-4">
-      <div className="mb-8 flex items-center justify-between">
-        <button onClick={onBack} className={`flex items-center font-semibold transition-colors ${darkMode ? 'text-gray-300 hover:text-white' : 'text-gray-600 hover:text-gray-900'}`}>
-          <ArrowLeft size={20} className="mr-2" /> Back to Set
-        </button>
-        <span className={`text-sm font-bold tracking-wide px-3 py-1 rounded-full ${darkMode ? 'bg-[#2c2c2e] text-gray-300' : 'bg-gray-100 text-gray-500'}`}>{currentIndex + 1} / {set.cards.length}</span>
-      </div>
+    <div className="fixed inset-0 z-[60] flex items-center justify-center bg-black/30 backdrop-blur-sm p-4 animate-in fade-in duration-200">
+      <div className={`w-full max-w-2xl rounded-3xl shadow-2xl p-8 animate-in zoom-in-95 duration-200 ${darkMode ? 'bg-[#1c1c1e] text-white border border-gray-800' : 'bg-white text-gray-900'}`}>
+        <div className="flex justify-between items-center mb-6">
+          <h2 className="text-xl font-bold flex items-center gap-2 tracking-tight">
+            <Download className="text-indigo-500" /> Export "{set.title}"
+          </h2>
+          <button onClick={onClose} className={`p-2 rounded-full transition ${darkMode ? 'bg-gray-800 hover:bg-gray-700' : 'bg-gray-100 hover:bg-gray-200'}`}>
+            <X size={20} />
+          </button>
+        </div>
 
-      {/* Card Container */}
-      <div className="flex-1 flex flex-col justify-center items-center min-h-[400px] perspective-1000">
-        <div 
-          className={`relative w-full h-96 cursor-pointer transition-all duration-500 transform-style-3d ${isFlipped ? 'rotate-y-180' : ''}`}
-          onClick={() => setIsFlipped(!isFlipped)}
-        >
-          {/* Front */}
-          <div className={`absolute inset-0 rounded-3xl shadow-xl border flex flex-col items-center justify-center p-10 backface-hidden ${darkMode ? 'bg-[#1c1c1e] border-gray-800 text-white' : 'bg-white border-gray-100 text-gray-900'}`}>
-            <span className={`text-xs font-bold uppercase tracking-widest absolute top-8 left-8 ${darkMode ? 'text-gray-500' : 'text-gray-400'}`}>Term</span>
-            <h2 className="text-3xl md:text-5xl text-center font-bold tracking-tight leading-tight">{currentCard.term}</h2>
-            <span className={`text-sm font-medium absolute bottom-8 text-center w-full opacity-50 ${darkMode ? 'text-gray-400' : 'text-gray-400'}`}>Tap to flip</span>
+        <div className="space-y-5 mb-6">
+          <div>
+            <label className={labelClass}>Format</label>
+            <div className="flex flex-wrap gap-2">
+              {[['csv', 'CSV / TSV'], ['json', 'QuizDeck JSON'], ['anki', 'Anki text']].map(([id, label]) => (
+                <button key={id} onClick={() => selectFormat(id)} className={pillClass(format === id)}>{label}</button>
+              ))}
+            </div>
           </div>
 
-          {/* Back */}
-          <div className={`absolute inset-0 rounded-3xl shadow-xl border flex flex-col items-center justify-center p-10 backface-hidden rotate-y-180 ${darkMode ? 'bg-[#2c2c2e] border-gray-700 text-white' : 'bg-gradient-to-br from-indigo-50 to-white border-indigo-100 text-indigo-900'}`}>
-            <span className={`text-xs font-bold uppercase tracking-widest absolute top-8 left-8 ${darkMode ? 'text-gray-400' : 'text-indigo-400'}`}>Definition</span>
-            <p className="text-2xl md:text-3xl text-center font-medium leading-relaxed">{currentCard.def}</p>
-          </div>
-        </div>
+          {format !== 'json' && (
+            <div>
+              <label className={labelClass}>Separator</label>
+              <div className="flex flex-wrap gap-2">
+                {EXPORT_FIELD_SEPARATORS.map(sep => (
+                  <button key={sep.id} onClick={() => setSeparatorId(sep.id)} className={pillClass(separatorId === sep.id)}>{sep.label}</button>
+                ))}
+              </div>
+            </div>
+          )}
 
-        {/* Controls */}
-        <div className="flex items-center justify-center gap-8 mt-12">
-          {[
-            { icon: ChevronLeft, action: prevCard },
-            { icon: RotateCw, action: () => setIsFlipped(!isFlipped) },
-            { icon: ChevronRight, action: nextCard }
-          ].map((btn, i) => (
-            <button 
-              key={i} 
-              onClick={btn.action} 
-              className={`p-5 rounded-full transition-all active:scale-95 ${darkMode ? 'bg-[#2c2c2e] text-white hover:bg-[#3a3a3c] shadow-lg shadow-black/20' : 'bg-white text-gray-600 hover:text-indigo-600 hover:shadow-xl shadow-lg shadow-gray-200/50'}`}
-            >
-              <btn.icon size={24} strokeWidth={2.5} />
-            </button>
-          ))}
+          {format === 'csv' && (
+            <div>
+              <label className={labelClass}>Fields</label>
+              <div className="flex flex-wrap gap-6">
+                {EXPORT_COLUMNS.map(col => checkboxRow(columns.includes(col.id), () => toggleColumn(col.id), col.label))}
+                {checkboxRow(header, () => setHeader(!header), 'Header row')}
+              </div>
+            </div>
+          )}
+
+          {format === 'json' && checkboxRow(includeProgress, () => setIncludeProgress(!includeProgress), 'Include study progress (review schedule)')}
+          {format === 'anki' && checkboxRow(swap, () => setSwap(!swap), 'Put the definition on the front')}
+
+          <div>
+            <label className={labelClass}>Preview</label>
+            <pre className={`h-48 overflow-auto rounded-2xl p-4 text-xs font-mono whitespace-pre-wrap ${darkMode ? 'bg-[#2c2c2e] text-gray-300' : 'bg-gray-100 text-gray-700'}`}>{output}</pre>
+          </div>
         </div>
-      </div>
 
-      {/* Progress Bar */}
-      <div className={`mt-12 h-1.5 rounded-full overflow-hidden ${darkMode ? 'bg-[#2c2c2e]' : 'bg-gray-100'}`}>
-        <div className="h-full bg-indigo-500 transition-all duration-300 rounded-full" style={{ width: `${progress}%` }}></div>
+        <div className="flex justify-end gap-3">
+          <button
+            onClick={() => navigator.clipboard?.writeText(output)}
+            className={`px-6 py-3 font-semibold rounded-full transition-all ${darkMode ? 'text-gray-300 hover:bg-[#2c2c2e]' : 'text-gray-600 hover:bg-gray-100'}`}
+          >
+            Copy
+          </button>
+          <button
+            onClick={handleDownload}
+            disabled={format === 'csv' && columns.length === 0}
+            className="px-6 py-3 bg-indigo-600 text-white font-semibold rounded-full hover:bg-indigo-700 active:scale-95 transition-all shadow-lg shadow-indigo-500/30 disabled:opacity-50 flex items-center"
+          >
+            <Download size={18} className="mr-2" /> Download
+          </button>
+        </div>
       </div>
     </div>
   );
 };
 
-// 5. MATCH GAME COMPONENT
-const MatchMode = ({ set, onBack, darkMode }) => {
-  const [items, setItems] = useState([]);
-  const [selectedIds, setSelectedIds] = useState([]);
-  const [matchedIds, setMatchedIds] = useState([]);
-  const [startTime] = useState(Date.now());
-  const [currentTime, setCurrentTime] = useState(0);
-  const [isGameOver, setIsGameOver] = useState(false);
-  const [wrongPair, setWrongPair] = useState([]);
-
-  // Initialize Game
-  useEffect(() => {
-    const gameItems = set.cards.flatMap(card => [
-      { id: `${card.id}-term`, content: card.term, type: 'term', parentId: card.id },
-      { id: `${card.id}-def`, content: card.def, type: 'def', parentId: card.id }
-    ]);
-    setItems(shuffleArray(gameItems));
-    
-    const timer = setInterval(() => {
-      if (!isGameOver) setCurrentTime((Date.now() - startTime) / 1000);
-    }, 100);
-    return () => clearInterval(timer);
-  }, [set, isGameOver, startTime]);
-
-  useEffect(() => {
-    if (matchedIds.length === items.length && items.length > 0) {
-      setIsGameOver(true);
-    }
-  }, [matchedIds, items]);
-
-  const handleCardClick = (item) => {
-    if (matchedIds.includes(item.id) || selectedIds.includes(item.id) || isGameOver || wrongPair.length > 0) return;
+// 12. HIGHLIGHTED TEXT COMPONENT
+const HighlightedText = ({ text, ranges = [] }) => {
+  if (!text || ranges.length === 0) return text || null;
+  const merged = [...ranges].sort((a, b) => a[0] - b[0]).reduce((acc, [start, end]) => {
+    const last = acc[acc.length - 1];
+    if (last && start <= last[1]) last[1] = Math.max(last[1], end);
+    else acc.push([start, end]);
+    return acc;
+  }, []);
 
-    const newSelected = [...selectedIds, item.id];
-    setSelectedIds(newSelected);
+  const parts = [];
+  let cursor = 0;
+  merged.forEach(([start, end]) => {
+    if (start > cursor) parts.push(text.slice(cursor, start));
+    parts.push(<mark key={start} className="bg-yellow-300/60 text-inherit rounded px-0.5">{text.slice(start, end)}</mark>);
+    cursor = end;
+  });
+  parts.push(text.slice(cursor));
+  return <>{parts}</>;
+};
 
-    if (newSelected.length === 2) {
-      const [firstId, secondId] = newSelected;
-      const firstItem = items.find(i => i.id === firstId);
-      const secondItem = items.find(i => i.id === secondId);
+// 13. STATISTICS DASHBOARD COMPONENT
+const StatsDashboard = ({ sessions, sets, onBack, onOpenSet, darkMode }) => {
+  const daily = useMemo(() => getDailyStats(sessions), [sessions]);
+  const streak = useMemo(() => getStudyStreak(sessions), [sessions]);
+  const cardStats = useMemo(() => getCardStats(sessions), [sessions]);
+  const hardest = useMemo(() => getHardestCards(cardStats, sets), [cardStats, sets]);
+  const setRows = useMemo(() => sets.map(set => {
+    const matchTimes = sessions.filter(s => s.setId === set.id && s.matchTime).map(s => s.matchTime);
+    return {
+      set,
+      mastery: getSetMastery(set, cardStats),
+      sessions: sessions.filter(s => s.setId === set.id).length,
+      bestMatch: matchTimes.length ? Math.min(...matchTimes) : null
+    };
+  }).sort((a, b) => b.sessions - a.sessions || a.set.title.localeCompare(b.set.title)), [sets, sessions, cardStats]);
 
-      if (firstItem.parentId === secondItem.parentId) {
-        setMatchedIds(prev => [...prev, firstId, secondId]);
-        setSelectedIds([]);
-      } else {
-        setWrongPair([firstId, secondId]);
-        setTimeout(() => {
-          setWrongPair([]);
-          setSelectedIds([]);
-        }, 800);
-      }
-    }
-  };
+  const answered = daily.reduce((n, d) => n + d.answered, 0);
+  const accuracy = answered ? Math.round(daily.reduce((n, d) => n + d.correct, 0) / answered * 100) : null;
+  const weekMinutes = daily.slice(-7).reduce((n, d) => n + d.minutes, 0);
+  const maxMinutes = Math.max(1, ...daily.map(d => d.minutes));
+  const recent = [...sessions].sort((a, b) => b.startedAt - a.startedAt).slice(0, 8);
 
-  if (isGameOver) {
-    return (
-      <div className="flex flex-col items-center justify-center h-full p-8 animate-in zoom-in-95 duration-500">
-        <div className="mb-8 relative">
-            <div className="absolute inset-0 bg-yellow-500 blur-3xl opacity-20 rounded-full"></div>
-            <Trophy size={80} className="text-yellow-500 relative z-10 drop-shadow-lg" />
-        </div>
-        <h2 className={`text-5xl font-bold mb-4 tracking-tight ${darkMode ? 'text-white' : 'text-gray-900'}`}>Great Job!</h2>
-        <p className={`text-2xl mb-12 font-medium ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>You cleared the deck in <span className="font-bold text-indigo-500">{currentTime.toFixed(1)}s</span></p>
-        <div className="flex gap-4">
-          <button onClick={() => window.location.reload()} className="px-8 py-4 bg-indigo-600 text-white rounded-full font-bold hover:bg-indigo-700 hover:shadow-lg hover:scale-105 active:scale-95 transition-all">Play Again</button>
-          <button onClick={onBack} className={`px-8 py-4 rounded-full font-bold transition-all hover:scale-105 active:scale-95 ${darkMode ? 'bg-[#2c2c2e] text-white hover:bg-[#3a3a3c]' : 'bg-gray-100 text-gray-900 hover:bg-gray-200'}`}>Back to Set</button>
-        </div>
-      </div>
-    );
-  }
+  const panelClass = `rounded-3xl shadow-sm border p-8 ${darkMode ? 'bg-[#1c1c1e] border-gray-800' : 'bg-white border-gray-100'}`;
+  const headingClass = `text-lg font-bold tracking-tight mb-6 ${darkMode ? 'text-gray-100' : 'text-gray-900'}`;
+  const mutedClass = darkMode ? 'text-gray-500' : 'text-gray-400';
+  const dayLabel = (d) => d.date.toLocaleDateString(undefined, { weekday: 'narrow' });
 
   return (
-    <div className="h-full flex flex-col p-4">
-      <div className="flex justify-between items-center mb-6">
-        <button onClick={onBack} className={`flex items-center font-semibold transition-colors ${darkMode ? 'text-gray-400 hover:text-indigo-400' : 'text-gray-600 hover:text-indigo-600'}`}>
-           <X size={20} className="mr-2" /> End Game
-        </button>
-        <div className="text-2xl font-mono font-bold text-indigo-500 bg-indigo-500/10 px-4 py-1 rounded-lg">{currentTime.toFixed(1)}s</div>
-      </div>
+    <div className="max-w-5xl mx-auto p-4 animate-in fade-in">
+      <button onClick={onBack} className="mb-6 flex items-center text-indigo-500 hover:text-indigo-600 font-semibold transition-colors"><ChevronLeft size={20} className="mr-1" /> Library</button>
+      <h1 className={`text-4xl font-bold tracking-tight mb-2 ${darkMode ? 'text-white' : 'text-gray-900'}`}>Statistics</h1>
+      <p className={`text-lg mb-10 ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>Your progress over the last {STATS_DAYS} days</p>
 
-      <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4 flex-1 content-start">
-        {items.map(item => {
-          const isSelected = selectedIds.includes(item.id);
-          const isMatched = matchedIds.includes(item.id);
-          const isWrong = wrongPair.includes(item.id);
+      {sessions.length === 0 ? (
+        <div className={`text-center py-24 rounded-3xl border-2 border-dashed ${darkMode ? 'bg-[#1c1c1e] border-gray-800' : 'bg-white border-gray-200'}`}>
+          <h3 className={`text-xl font-bold mb-2 ${darkMode ? 'text-white' : 'text-gray-900'}`}>No study sessions yet</h3>
+          <p className="text-gray-400">Study any set and your results will show up here.</p>
+        </div>
+      ) : (
+        <div className="space-y-6">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+            {[
+              { icon: Flame, label: 'Streak', value: `${streak.current} ${streak.current === 1 ? 'day' : 'days'}`, detail: `Longest ${streak.longest}`, color: 'text-orange-500', bg: 'bg-orange-500/10' },
+              { icon: Clock, label: 'This week', value: formatDuration(weekMinutes * 60000), detail: 'Time studied', color: 'text-indigo-500', bg: 'bg-indigo-500/10' },
+              { icon: Target, label: 'Accuracy', value: accuracy === null ? '—' : `${accuracy}%`, detail: `${answered} answers`, color: 'text-emerald-500', bg: 'bg-emerald-500/10' },
+              { icon: History, label: 'Sessions', value: sessions.length, detail: 'All time', color: 'text-sky-500', bg: 'bg-sky-500/10' }
+            ].map(tile => (
+              <div key={tile.label} className={panelClass}>
+                <div className={`inline-flex p-3 rounded-2xl mb-4 ${tile.bg} ${tile.color}`}><tile.icon size={22} strokeWidth={2.5} /></div>
+                <p className={`text-xs uppercase font-bold tracking-widest ${mutedClass}`}>{tile.label}</p>
+                <p className={`text-3xl font-bold tracking-tight mt-1 ${darkMode ? 'text-white' : 'text-gray-900'}`}>{tile.value}</p>
+                <p className={`text-sm font-medium mt-1 ${mutedClass}`}>{tile.detail}</p>
+              </div>
+            ))}
+          </div>
 
-          if (isMatched) return <div key={item.id} className="invisible"></div>;
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            {[
+              { title: 'Minutes per day', value: d => d.minutes / maxMinutes, label: d => `${Math.round(d.minutes)} min`, color: 'bg-indigo-500' },
+              { title: 'Accuracy over time', value: d => (d.answered ? d.correct / d.answered : 0), label: d => (d.answered ? `${Math.round(d.correct / d.answered * 100)}% of ${d.answered}` : 'No answers'), color: 'bg-emerald-500' }
+            ].map(chart => (
+              <div key={chart.title} className={panelClass}>
+                <h3 className={headingClass}>{chart.title}</h3>
+                <div className="flex items-end gap-1.5 h-40">
+                  {daily.map(d => (
+                    <div key={d.day} className="flex-1 h-full flex flex-col justify-end items-center gap-2" title={`${d.date.toLocaleDateString()}: ${chart.label(d)}`}>
+                      <div className={`w-full rounded-t-lg ${chart.color}`} style={{ height: `${Math.round(chart.value(d) * 100)}%`, minHeight: chart.value(d) > 0 ? 4 : 0 }} />
+                      <span className={`text-[10px] font-bold ${mutedClass}`}>{dayLabel(d)}</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            ))}
+          </div>
 
-          // Card Base Styles
-          let cardStyle = darkMode 
-            ? 'bg-[#1c1c1e] border-gray-800 text-gray-200' 
-            : 'bg-white border-gray-200 text-gray-700 hover:border-indigo-300';
+          <div className={panelClass}>
+            <h3 className={headingClass}>Set mastery</h3>
+            <div className="space-y-5">
+              {setRows.map(row => (
+                <button key={row.set.id} onClick={() => onOpenSet(row.set.id)} className="w-full text-left group">
+                  <div className="flex justify-between items-baseline mb-2 gap-4">
+                    <span className={`font-semibold truncate group-hover:text-indigo-500 transition-colors ${darkMode ? 'text-gray-200' : 'text-gray-800'}`}>{row.set.title}</span>
+                    <span className={`text-sm font-medium whitespace-nowrap ${mutedClass}`}>
+                      {row.sessions} {row.sessions === 1 ? 'session' : 'sessions'}{row.bestMatch !== null && ` · best match ${row.bestMatch.toFixed(1)}s`} · <span className="font-bold text-indigo-500">{Math.round(row.mastery * 100)}%</span>
+                    </span>
+                  </div>
+                  <div className={`h-2 rounded-full overflow-hidden ${darkMode ? 'bg-gray-800' : 'bg-gray-100'}`}>
+                    <div className="h-full bg-indigo-500 rounded-full transition-all" style={{ width: `${row.mastery * 100}%` }} />
+                  </div>
+                </button>
+              ))}
+            </div>
+            <p className={`text-xs font-medium mt-6 ${mutedClass}`}>A card counts as mastered when you last answered it correctly.</p>
+          </div>
 
-          if (isSelected) {
-             cardStyle = darkMode 
-              ? 'border-indigo-500 bg-[#2c2c2e] text-white scale-105 shadow-lg shadow-indigo-500/20' 
-              : 'border-indigo-500 bg-indigo-50 text-indigo-900 scale-105 shadow-lg shadow-indigo-200/50';
-          }
-          if (isWrong) {
-             cardStyle = darkMode 
-              ? 'animate-shake border-red-500 bg-red-900/20 text-red-400' 
-              : 'animate-shake border-red-500 bg-red-50 text-red-600';
-          }
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div className={panelClass}>
+              <h3 className={headingClass}>Hardest cards</h3>
+              {hardest.length === 0 ? (
+                <p className={`text-sm font-medium ${mutedClass}`}>No missed cards yet.</p>
+              ) : (
+                <div className="space-y-4">
+                  {hardest.map(entry => (
+                    <div key={`${entry.setId}/${entry.cardId}`} className="flex justify-between gap-4">
+                      <div className="min-w-0">
+                        <p className={`font-semibold truncate ${darkMode ? 'text-gray-200' : 'text-gray-800'}`}>{entry.card.term}</p>
+                        <p className={`text-sm truncate ${mutedClass}`}>{entry.card.def} · {entry.set.title}</p>
+                      </div>
+                      <span className="text-sm font-bold text-rose-500 whitespace-nowrap">{entry.misses}/{entry.attempts} missed</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
 
-          return (
-            <div
-              key={item.id}
-              onClick={() => handleCardClick(item)}
-              className={`min-h-[120px] p-6 rounded-2xl flex items-center justify-center text-center cursor-pointer transition-all duration-200 shadow-sm border-2 font-semibold text-lg select-none ${cardStyle}`}
-            >
-              {item.content}
+            <div className={panelClass}>
+              <h3 className={headingClass}>Recent sessions</h3>
+              <div className="space-y-4">
+                {recent.map(session => {
+                  const right = session.results.filter(r => r.correct).length;
+                  return (
+                    <div key={session.id} className="flex justify-between gap-4">
+                      <div className="min-w-0">
+                        <p className={`font-semibold truncate ${darkMode ? 'text-gray-200' : 'text-gray-800'}`}>{STUDY_MODE_LABELS[session.mode] || session.mode} · {session.setTitle}</p>
+                        <p className={`text-sm ${mutedClass}`}>{new Date(session.startedAt).toLocaleString(undefined, { dateStyle: 'medium', timeStyle: 'short' })} · {formatDuration(session.duration)}</p>
+                      </div>
+                      <span className={`text-sm font-bold whitespace-nowrap ${darkMode ? 'text-gray-300' : 'text-gray-700'}`}>
+                        {session.matchTime ? `${session.matchTime.toFixed(1)}s` : `${right}/${session.results.length}`}
+                      </span>
+                    </div>
+                  );
+                })}
+              </div>
             </div>
-          );
-        })}
-      </div>
+          </div>
+        </div>
+      )}
     </div>
   );
 };
 
-// 6. LEARN MODE COMPONENT
-const LearnMode = ({ set, onBack, darkMode }) => {
-  const [queue, setQueue] = useState([]);
-  const [currentQ, setCurrentQ] = useState(null);
-  const [options, setOptions] = useState([]);
-  const [selectedOption, setSelectedOption] = useState(null);
-  const [isCorrect, setIsCorrect] = useState(null);
-  const [score, setScore] = useState(0);
-  const [completed, setCompleted] = useState(false);
+// 14. CARD CONTENT COMPONENT
+// Markdown paragraphs render as block spans so content can sit inside headings and buttons
+const MARKDOWN_COMPONENTS = { p: ({ children }) => <span className="block">{children}</span> };
 
-  useEffect(() => {
-    setQueue(shuffleArray([...set.cards]));
-  }, [set]);
+const CardContent = ({ text, image, imageClassName = 'max-h-40' }) => (
+  <span className="card-content block">
+    {image && <img src={image} alt="" className={`block mx-auto mb-3 rounded-xl object-contain max-w-full ${imageClassName}`} />}
+    {text && <ReactMarkdown remarkPlugins={[remarkMath]} rehypePlugins={[rehypeKatex]} components={MARKDOWN_COMPONENTS}>{text}</ReactMarkdown>}
+  </span>
+);
 
-  useEffect(() => {
-    if (queue.length > 0 && !currentQ) {
-      const nextCard = queue[0];
-      setCurrentQ(nextCard);
-      
-      const distractors = shuffleArray(set.cards.filter(c => c.id !== nextCard.id)).slice(0, 3);
-      const allOptions = shuffleArray([nextCard, ...distractors]);
-      setOptions(allOptions);
-      setSelectedOption(null);
-      setIsCorrect(null);
-    } else if (queue.length <= 0 && currentQ === null && !completed) {
-      // Handled by queue check in render
-    }
-  }, [queue, currentQ, set.cards, completed]);
+// 15. RICH TEXT FIELD COMPONENT
+const RichTextField = ({ value, onChange, image, onImageChange, placeholder, darkMode }) => {
+  const textareaRef = useRef(null);
+  const fileInputRef = useRef(null);
+  const [showPreview, setShowPreview] = useState(false);
+  const [imageError, setImageError] = useState(null);
 
-  const handleAnswer = (option) => {
-    if (selectedOption) return;
-    setSelectedOption(option);
-    
-    if (option.id === currentQ.id) {
-      setIsCorrect(true);
-      setScore(s => s + 1);
-    } else {
-      setIsCorrect(false);
-    }
+  const applyTool = (tool) => {
+    const textarea = textareaRef.current;
+    const result = applyMarkdownTool(value, textarea.selectionStart, textarea.selectionEnd, tool);
+    onChange(result.value);
+    requestAnimationFrame(() => {
+      textarea.focus();
+      textarea.setSelectionRange(result.start, result.end);
+    });
   };
 
-  const handleNext = () => {
-    if (queue.length <= 1) {
-      setCompleted(true);
-    } else {
-      setQueue(prev => prev.slice(1));
-      setCurrentQ(null);
+  const attachImage = async (file) => {
+    try {
+      onImageChange(await readImageFile(file));
+      setImageError(null);
+    } catch (error) {
+      setImageError(error.message);
     }
   };
 
-  if (completed) {
-    return (
-      <div className="flex flex-col items-center justify-center h-full p-8 animate-in zoom-in-95">
-        <div className="w-24 h-24 bg-green-100 rounded-full flex items-center justify-center mb-6 text-green-600 shadow-lg shadow-green-500/20">
-             <Check size={48} strokeWidth={3} />
-        </div>
-        <h2 className={`text-4xl font-bold mb-4 tracking-tight ${darkMode ? 'text-white' : 'text-gray-900'}`}>Session Complete!</h2>
-        <div className="text-center mb-12">
-            <p className={`text-lg font-medium ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>You scored</p>
-            <p className="text-6xl font-bold text-indigo-600 mt-2 tracking-tighter">{score} <span className="text-3xl text-gray-400 font-medium">/ {set.cards.length}</span></p>
-        </div>
-        <button onClick={onBack} className={`px-10 py-4 rounded-full font-bold text-lg transition-all hover:scale-105 active:scale-95 shadow-lg ${darkMode ? 'bg-white text-black hover:bg-gray-100' : 'bg-black text-white hover:bg-gray-800'}`}>Back to Set</button>
-      </div>
-    );
-  }
+  const handlePaste = (e) => {
+    const file = [...e.clipboardData.files].find(f => f.type.startsWith('image/'));
+    if (!file) return;
+    e.preventDefault();
+    attachImage(file);
+  };
 
-  if (!currentQ) return <div className="p-8 text-center">Loading...</div>;
+  const toolClass = `p-1.5 rounded-lg transition-colors ${darkMode ? 'text-gray-500 hover:text-white hover:bg-[#3a3a3c]' : 'text-gray-400 hover:text-indigo-600 hover:bg-white'}`;
 
   return (
-    <div className="max-w-2xl mx-auto h-full flex flex-col p-4">
-      <div className="flex justify-between items-center mb-8">
-        <button onClick={onBack} className={`${darkMode ? 'text-gray-400 hover:text-white' : 'text-gray-500 hover:text-gray-900'} font-semibold transition-colors`}>Quit</button>
-        <span className={`text-sm font-bold tracking-wide px-3 py-1 rounded-full ${darkMode ? 'bg-[#2c2c2e] text-gray-300' : 'bg-gray-100 text-gray-500'}`}>{set.cards.length - queue.length + 1} / {set.cards.length}</span>
-      </div>
-
-      <div className={`rounded-3xl shadow-sm p-10 mb-8 flex-grow-0 min-h-[240px] flex items-center justify-center text-center border transition-all ${darkMode ? 'bg-[#1c1c1e] border-gray-800' : 'bg-white border-gray-100'}`}>
-        <div>
-            <span className={`text-xs uppercase font-bold tracking-widest mb-4 block opacity-60 ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>Definition</span>
-            <p className={`text-2xl font-medium leading-relaxed ${darkMode ? 'text-white' : 'text-gray-900'}`}>{currentQ.def}</p>
-        </div>
-      </div>
-
-      <div className="grid grid-cols-1 gap-4">
-        <span className={`text-xs uppercase font-bold tracking-widest mb-2 ml-1 opacity-60 ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>Choose the matching term</span>
-        {options.map(opt => {
-          let statusClass = darkMode 
-            ? "border-gray-800 bg-[#1c1c1e] hover:bg-[#2c2c2e]" 
-            : "border-gray-100 bg-white hover:border-indigo-200 hover:shadow-md";
-          
-          let textClass = darkMode ? 'text-gray-200' : 'text-gray-800';
-
-          if (selectedOption) {
-             if (opt.id === currentQ.id) {
-               statusClass = "border-green-500 bg-green-500 text-white";
-               textClass = "text-white";
-             } else if (opt.id === selectedOption.id && !isCorrect) {
-               statusClass = "border-red-500 bg-red-500 text-white";
-               textClass = "text-white";
-             } else {
-               statusClass = darkMode ? "border-gray-800 opacity-30" : "border-gray-100 opacity-30";
-             }
-          }
-
-          return (
-            <button
-              key={opt.id}
-              onClick={() => handleAnswer(opt)}
-              disabled={!!selectedOption}
-              className={`w-full p-5 text-left rounded-2xl border-2 transition-all duration-200 font-semibold text-lg ${statusClass} ${!selectedOption ? textClass : ''}`}
-            >
-              {opt.term}
-            </button>
-          );
-        })}
+    <div>
+      <div className="flex items-center gap-1 mb-2">
+        {MARKDOWN_TOOLS.map(tool => (
+          <button key={tool.id} type="button" onClick={() => applyTool(tool)} className={toolClass} title={tool.title}>
+            <tool.icon size={16} />
+          </button>
+        ))}
+        <button type="button" onClick={() => fileInputRef.current?.click()} className={toolClass} title="Add image (or paste one)">
+          <ImagePlus size={16} />
+        </button>
+        <input
+          type="file"
+          accept="image/*"
+          className="hidden"
+          ref={fileInputRef}
+          onChange={(e) => {
+            const file = e.target.files[0];
+            e.target.value = '';
+            if (file) attachImage(file);
+          }}
+        />
+        <button type="button" onClick={() => setShowPreview(!showPreview)} className={`${toolClass} ml-auto ${showPreview ? 'text-indigo-500' : ''}`} title="Preview">
+          <Eye size={16} />
+        </button>
       </div>
-
-      {selectedOption && (
-        <div className="mt-8 animate-in slide-in-from-bottom-4 fade-in">
-          <button 
-            onClick={handleNext}
-            className="w-full py-4 bg-indigo-600 text-white rounded-2xl font-bold text-lg hover:bg-indigo-700 shadow-lg shadow-indigo-500/30 transition-all active:scale-95"
-          >
-            {queue.length === 1 ? 'Finish' : 'Next Question'}
+      <textarea
+        ref={textareaRef}
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        onPaste={handlePaste}
+        rows={2}
+        className={`w-full text-lg rounded-xl px-4 py-3 outline-none transition-all resize-y ${darkMode ? 'bg-[#2c2c2e] text-white focus:ring-2 focus:ring-indigo-500/50' : 'bg-gray-100 text-gray-900 focus:bg-white focus:ring-2 focus:ring-indigo-500/20'}`}
+        placeholder={placeholder}
+      />
+      {image && (
+        <div className="relative inline-block mt-3">
+          <img src={image} alt="" className="max-h-32 rounded-xl" />
+          <button type="button" onClick={() => onImageChange(null)} className="absolute -top-2 -right-2 p-1 rounded-full bg-red-500 text-white shadow hover:bg-red-600 transition" title="Remove image">
+            <X size={14} />
           </button>
         </div>
       )}
+      {imageError && (
+        <p className="text-xs text-red-500 mt-2 ml-1 flex items-center"><AlertCircle size={14} className="mr-2 flex-shrink-0" /> {imageError}</p>
+      )}
+      {showPreview && (
+        <div className={`mt-3 p-4 rounded-xl text-lg ${darkMode ? 'bg-[#2c2c2e]/50 text-gray-200' : 'bg-gray-50 text-gray-800'}`}>
+          {value.trim() || image ? <CardContent text={value} image={image} /> : <span className="text-sm text-gray-400">Nothing to preview</span>}
+        </div>
+      )}
     </div>
   );
 };
 
-// 7. CREATE/EDIT SET COMPONENT
-const CreateSet = ({ onSave, onCancel, editSet = null, darkMode }) => {
-  const [title, setTitle] = useState(editSet ? editSet.title : '');
-  const [desc, setDesc] = useState(editSet ? editSet.description : '');
-  const [cards, setCards] = useState(editSet ? editSet.cards : [
-    { id: generateId(), term: '', def: '' },
-    { id: generateId(), term: '', def: '' },
-    { id: generateId(), term: '', def: '' }
-  ]);
+// 16. SPEAK BUTTON COMPONENT
+const SpeakButton = ({ speech, text, voice, darkMode, className = '' }) => {
+  const spoken = toSpeechText(text || '');
+  if (!speech?.isSupported || !spoken) return null;
+  return (
+    <button
+      type="button"
+      onClick={(e) => {
+        e.stopPropagation();
+        speech.speak(spoken, voice);
+      }}
+      className={`p-1.5 rounded-full transition-all active:scale-90 ${darkMode ? 'text-gray-500 hover:text-white' : 'text-gray-400 hover:text-indigo-600'} ${className}`}
+      title="Listen"
+    >
+      <Volume2 size={20} />
+    </button>
+  );
+};
+
+// 17. GENERATED SET REVIEW COMPONENT
+// Turns the cards of an AI reply into review drafts carrying `fields`; cards repeating `existing` (or each other) start out rejected
+const toDraftCards = (rawCards, existing = [], fields = {}) => {
+  const kept = [...existing];
+  return (Array.isArray(rawCards) ? rawCards : [])
+    .filter(isPlainObject)
+    .map(card => ({ id: generateId(), term: String(card.term ?? '').trim(), def: String(card.def ?? '').trim() }))
+    .filter(card => card.term || card.def)
+    .map(card => {
+      const accepted = !findDuplicateCard(card, kept);
+      if (accepted) kept.push(card);
+      return { ...card, ...fields, accepted };
+    });
+};
 
-  const addCard = () => {
-    setCards([...cards, { id: generateId(), term: '', def: '' }]);
+// `generated` is { title, description, sections: [{ label, source: { text, file }, cards }], failures: [{ label, message }] };
+// each draft card remembers the index of its section so it can be regenerated from the same source
+const GeneratedSetReview = ({ generated, sets, onSaveSet, onAppend, onBack, darkMode }) => {
+  const { sections, failures = [] } = generated;
+  const [title, setTitle] = useState(generated.title || "AI Generated Set");
+  const [description, setDescription] = useState(generated.description || "Created from your notes");
+  const [cards, setCards] = useState(() => sections.reduce(
+    (drafts, section, index) => [...drafts, ...toDraftCards(section.cards, drafts.filter(c => c.accepted), { section: index })],
+    []
+  ));
+  const [targetId, setTargetId] = useState('new');
+  const [editingId, setEditingId] = useState(null);
+  const [busyId, setBusyId] = useState(null); // a card being regenerated, or 'more'
+  const [moreCount, setMoreCount] = useState(5);
+  const [moreSection, setMoreSection] = useState(0);
+  const [error, setError] = useState(null);
+
+  const target = sets.find(s => s.id === targetId);
+  const existingCards = target?.cards || [];
+  const acceptedCards = cards.filter(c => c.accepted);
+
+  // Why a card would be a duplicate: it's already in the target set, or an earlier accepted card has the same term
+  const duplicateNote = (card, index) => {
+    if (findDuplicateCard(card, existingCards)) return `Already in "${target.title}"`;
+    if (findDuplicateCard(card, cards.slice(0, index).filter(c => c.accepted))) return 'Same term as a card above';
+    return null;
   };
+  const duplicateIds = new Set(cards.filter((card, i) => card.accepted && duplicateNote(card, i)).map(c => c.id));
 
-  const updateCard = (id, field, value) => {
-    setCards(cards.map(c => c.id === id ? { ...c, [field]: value } : c));
+  const updateCard = (id, changes) => {
+    setCards(prev => prev.map(c => c.id === id ? { ...c, ...changes } : c));
   };
 
-  const removeCard = (id) => {
-    setCards(cards.filter(c => c.id !== id));
+  const generate = async (busy, section, options) => {
+    const { source } = sections[section];
+    setBusyId(busy);
+    setError(null);
+    try {
+      return await generateFlashcardsAI(source.text, source.file?.base64, source.file?.mimeType, options);
+    } catch (err) {
+      setError(formatAIError(err));
+      return null;
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleRegenerate = async (card) => {
+    const result = await generate(card.id, card.section, { replace: card, avoid: cards.filter(c => c.id !== card.id).map(c => c.term) });
+    if (!result) return;
+    const [replacement] = toDraftCards(result.cards);
+    if (!replacement) {
+      setError("The AI didn't return a replacement card. Try again.");
+      return;
+    }
+    updateCard(card.id, { term: replacement.term, def: replacement.def, accepted: true });
+  };
+
+  const handleGenerateMore = async () => {
+    const result = await generate('more', moreSection, { count: moreCount, avoid: [...existingCards, ...cards].map(c => c.term) });
+    if (!result) return;
+    const more = toDraftCards(result.cards, [...existingCards, ...acceptedCards], { section: moreSection });
+    if (more.length === 0) setError("The AI didn't return any new cards.");
+    // Keep cards grouped by section (sort is stable)
+    setCards(prev => [...prev, ...more].sort((a, b) => a.section - b.section));
   };
 
   const handleSave = () => {
-    if (!title.trim()) return alert('Please enter a title');
-    const validCards = cards.filter(c => c.term.trim() || c.def.trim());
-    if (validCards.length < 2) return alert('Please add at least 2 cards');
-    
-    onSave({
-      id: editSet ? editSet.id : generateId(),
-      title,
-      description: desc,
-      cards: validCards
+    const saved = acceptedCards.map(({ id, term, def }) => ({ id, term, def }));
+    if (target) {
+      onAppend(target.id, saved);
+      return;
+    }
+    onSaveSet({
+      id: generateId(),
+      title: title.trim() || "AI Generated Set",
+      description,
+      cards: saved,
+      createdAt: Date.now()
     });
   };
 
-  const bgClass = darkMode ? 'bg-[#1c1c1e] border-gray-800' : 'bg-white border-gray-200';
-  const inputClass = darkMode ? 'bg-[#2c2c2e] text-white focus:ring-2 focus:ring-indigo-500/50' : 'bg-gray-100 text-gray-900 focus:bg-white focus:ring-2 focus:ring-indigo-500/20';
+  const textClass = darkMode ? 'text-gray-400' : 'text-gray-500';
+  const inputClass = `w-full px-4 py-2.5 rounded-xl border outline-none transition-all ${darkMode ? 'bg-[#2c2c2e] border-gray-700 text-white focus:border-indigo-500' : 'bg-white border-gray-200 text-gray-900 focus:border-indigo-400 focus:ring-4 focus:ring-indigo-100'}`;
+  const iconButtonClass = `p-2 rounded-full transition disabled:opacity-30 disabled:cursor-not-allowed ${darkMode ? 'text-gray-400 hover:bg-[#3a3a3c] hover:text-white' : 'text-gray-400 hover:bg-gray-100 hover:text-indigo-600'}`;
 
   return (
-    <div className="max-w-5xl mx-auto p-4 pb-20 animate-in fade-in">
-      <div className={`sticky top-0 z-20 py-6 mb-8 flex justify-between items-center backdrop-blur-xl border-b transition-colors ${darkMode ? 'bg-black/50 border-gray-800' : 'bg-white/80 border-gray-200/50'}`}>
-        <h1 className={`text-2xl font-bold tracking-tight ${darkMode ? 'text-white' : 'text-gray-900'}`}>{editSet ? 'Edit Study Set' : 'Create New Set'}</h1>
-        <div className="flex gap-4">
-           <button onClick={onCancel} className={`px-5 py-2.5 font-semibold rounded-full transition-colors ${darkMode ? 'text-gray-300 hover:bg-[#2c2c2e]' : 'text-gray-600 hover:bg-gray-100'}`}>Cancel</button>
-           <button onClick={handleSave} className="px-6 py-2.5 bg-indigo-600 text-white font-bold rounded-full hover:bg-indigo-700 shadow-lg shadow-indigo-500/30 active:scale-95 transition-all">
-            {editSet ? 'Save Changes' : 'Create'}
-           </button>
-        </div>
+    <div className="max-w-3xl mx-auto p-4 animate-in fade-in duration-500">
+      <div className="mb-8">
+        <button onClick={onBack} disabled={!!busyId} className={`${textClass} hover:text-indigo-500 font-semibold flex items-center mb-6 transition-colors`}>
+          <ArrowLeft size={18} className="mr-2" /> Back to source
+        </button>
+        <h1 className={`text-3xl font-bold tracking-tight mb-2 ${darkMode ? 'text-white' : 'text-gray-900'}`}>Review Cards</h1>
+        <p className={`text-lg leading-relaxed ${textClass}`}>Keep the cards you want, fix or regenerate the rest, then save.</p>
       </div>
 
-      <div className="space-y-8">
-        <div className={`p-8 rounded-3xl shadow-sm border ${bgClass}`}>
-          <div className="space-y-6">
-            <div>
-              <label className={`block text-xs font-bold uppercase tracking-wider mb-2 ml-1 ${darkMode ? 'text-gray-500' : 'text-gray-400'}`}>Title</label>
-              <input 
-                type="text" 
-                placeholder='e.g., "Biology - Chapter 22"'
-                className={`w-full text-lg font-medium rounded-2xl px-4 py-3 outline-none transition-all ${inputClass}`}
-                value={title}
-                onChange={(e) => setTitle(e.target.value)}
-              />
-            </div>
-            <div>
-              <label className={`block text-xs font-bold uppercase tracking-wider mb-2 ml-1 ${darkMode ? 'text-gray-500' : 'text-gray-400'}`}>Description</label>
-              <input 
-                type="text" 
-                placeholder='What is this set about?'
-                className={`w-full rounded-2xl px-4 py-3 outline-none transition-all ${inputClass}`}
-                value={desc}
-                onChange={(e) => setDesc(e.target.value)}
-              />
-            </div>
-          </div>
+      {failures.length > 0 && (
+        <div className="mb-6 p-4 bg-orange-500/10 border border-orange-500/20 text-orange-600 rounded-2xl text-sm font-medium">
+          <p className="flex items-center font-bold mb-1"><AlertCircle size={16} className="mr-2 flex-shrink-0" /> Some sections couldn't be turned into cards</p>
+          {failures.map((failure, i) => <p key={i}>{failure.label ? `${failure.label}: ` : ''}{failure.message}</p>)}
         </div>
+      )}
 
-        <div className="space-y-4">
-          {cards.map((card, index) => (
-            <div key={card.id} className={`group p-6 rounded-3xl shadow-sm border transition-all ${bgClass} ${darkMode ? 'hover:border-gray-700' : 'hover:border-indigo-200 hover:shadow-md'}`}>
-              <div className={`flex justify-between mb-4 border-b pb-4 ${darkMode ? 'border-gray-800' : 'border-gray-100'}`}>
-                <span className="font-bold text-gray-400 px-3 py-1 bg-gray-100/10 rounded-full">{index + 1}</span>
-                <button onClick={() => removeCard(card.id)} className="text-gray-400 hover:text-red-500 transition p-2 hover:bg-red-50 rounded-full"><Trash2 size={18} /></button>
-              </div>
-              <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
-                <div>
-                   <label className={`text-xs font-bold uppercase tracking-wider mb-2 block ml-1 ${darkMode ? 'text-gray-500' : 'text-gray-400'}`}>Term</label>
-                   <input 
-                    value={card.term}
-                    onChange={(e) => updateCard(card.id, 'term', e.target.value)}
-                    className={`w-full text-lg rounded-xl px-4 py-3 outline-none transition-all ${inputClass}`}
-                    placeholder="Enter term"
-                   />
-                </div>
-                <div>
-                   <label className={`text-xs font-bold uppercase tracking-wider mb-2 block ml-1 ${darkMode ? 'text-gray-500' : 'text-gray-400'}`}>Definition</label>
-                   <input 
-                    value={card.def}
-                    onChange={(e) => updateCard(card.id, 'def', e.target.value)}
-                    className={`w-full text-lg rounded-xl px-4 py-3 outline-none transition-all ${inputClass}`}
-                    placeholder="Enter definition"
-                   />
+      <div className={`p-6 rounded-3xl border mb-6 space-y-4 ${darkMode ? 'bg-[#1c1c1e] border-gray-800' : 'bg-white border-gray-200'}`}>
+        <label className="block">
+          <span className={`block text-sm font-semibold mb-2 ${textClass}`}>Save to</span>
+          <select value={targetId} onChange={(e) => setTargetId(e.target.value)} className={inputClass}>
+            <option value="new">A new set</option>
+            {sets.map(s => <option key={s.id} value={s.id}>Add to "{s.title}"</option>)}
+          </select>
+        </label>
+        {!target && (
+          <>
+            <input value={title} onChange={(e) => setTitle(e.target.value)} placeholder="Title" className={`${inputClass} font-bold`} />
+            <input value={description} onChange={(e) => setDescription(e.target.value)} placeholder="Description" className={inputClass} />
+          </>
+        )}
+      </div>
+
+      <div className="space-y-3 mb-6">
+        {cards.map((card, index) => {
+          const note = duplicateNote(card, index);
+          const startsSection = sections.length > 1 && (index === 0 || cards[index - 1].section !== card.section);
+          return (
+            <React.Fragment key={card.id}>
+              {startsSection && (
+                <h2 className={`pt-4 text-sm font-bold uppercase tracking-wide ${textClass}`}>
+                  {sections[card.section].label} · {cards.filter(c => c.section === card.section).length} cards
+                </h2>
+              )}
+              <div className={`p-4 rounded-2xl border transition-all ${card.accepted ? '' : 'opacity-50'} ${darkMode ? 'bg-[#1c1c1e] border-gray-800' : 'bg-white border-gray-200'}`}>
+                <div className="flex items-start gap-3">
+                  <button
+                    onClick={() => updateCard(card.id, { accepted: !card.accepted })}
+                    title={card.accepted ? 'Reject' : 'Accept'}
+                    className={`mt-1 w-6 h-6 rounded-full border-2 flex items-center justify-center flex-shrink-0 transition ${card.accepted ? 'bg-indigo-600 border-indigo-600 text-white' : darkMode ? 'border-gray-600' : 'border-gray-300'}`}
+                  >
+                    {card.accepted && <Check size={14} />}
+                  </button>
+                  <div className="flex-1 min-w-0">
+                    {editingId === card.id ? (
+                      <div className="space-y-2">
+                        <input value={card.term} onChange={(e) => updateCard(card.id, { term: e.target.value })} placeholder="Term" className={inputClass} />
+                        <textarea value={card.def} onChange={(e) => updateCard(card.id, { def: e.target.value })} placeholder="Definition" rows={3} className={`${inputClass} resize-none`} />
+                      </div>
+                    ) : (
+                      <>
+                        <p className={`font-semibold ${darkMode ? 'text-white' : 'text-gray-900'}`}><CardContent text={card.term} /></p>
+                        <div className={`text-sm mt-1 ${darkMode ? 'text-gray-300' : 'text-gray-600'}`}><CardContent text={card.def} /></div>
+                      </>
+                    )}
+                    {note && (
+                      <p className="mt-2 text-xs font-semibold text-orange-500 flex items-center gap-1">
+                        <AlertCircle size={12} /> {note}
+                      </p>
+                    )}
+                  </div>
+                  <div className="flex items-center flex-shrink-0">
+                    <button onClick={() => setEditingId(editingId === card.id ? null : card.id)} title={editingId === card.id ? 'Done' : 'Edit'} className={iconButtonClass}>
+                      {editingId === card.id ? <Check size={16} /> : <PenLine size={16} />}
+                    </button>
+                    <button onClick={() => handleRegenerate(card)} disabled={!!busyId} title="Regenerate this card" className={iconButtonClass}>
+                      {busyId === card.id ? <Loader2 size={16} className="animate-spin" /> : <RotateCw size={16} />}
+                    </button>
+                  </div>
                 </div>
               </div>
-            </div>
-          ))}
+            </React.Fragment>
+          );
+        })}
+        {cards.length === 0 && <p className={`text-center py-8 ${textClass}`}>The AI didn't return any cards. Generate some more or go back and try different source material.</p>}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-3 mb-6">
+        <div className={`flex items-center rounded-full pl-4 pr-1 py-1 gap-2 ${darkMode ? 'bg-[#2c2c2e]' : 'bg-indigo-50'}`}>
+          <input
+            type="number"
+            min={1}
+            max={20}
+            value={moreCount}
+            onChange={(e) => setMoreCount(Math.min(Math.max(Number(e.target.value) || 1, 1), 20))}
+            title="How many cards to generate"
+            className={`w-12 text-center bg-transparent outline-none font-semibold ${darkMode ? 'text-white' : 'text-indigo-600'}`}
+          />
+          <button
+            onClick={handleGenerateMore}
+            disabled={!!busyId}
+            className={`px-4 py-1.5 rounded-full font-semibold flex items-center gap-2 transition disabled:opacity-50 ${darkMode ? 'text-white hover:bg-[#3a3a3c]' : 'text-indigo-600 hover:bg-indigo-100'}`}
+          >
+            {busyId === 'more' ? <Loader2 size={16} className="animate-spin" /> : <Sparkles size={16} />} Generate {moreCount} more
+          </button>
+        </div>
+        {sections.length > 1 && (
+          <select value={moreSection} onChange={(e) => setMoreSection(Number(e.target.value))} title="Section to generate from" className={`px-4 py-2.5 rounded-full border outline-none text-sm font-medium max-w-xs ${darkMode ? 'bg-[#2c2c2e] border-gray-700 text-white' : 'bg-white border-gray-200 text-gray-700'}`}>
+            {sections.map((section, i) => <option key={i} value={i}>from {section.label}</option>)}
+          </select>
+        )}
+        {duplicateIds.size > 0 && (
+          <button onClick={() => setCards(prev => prev.map(c => duplicateIds.has(c.id) ? { ...c, accepted: false } : c))} className="px-5 py-2.5 rounded-full font-semibold text-orange-500 hover:bg-orange-500/10 transition">
+            Reject {duplicateIds.size} duplicate{duplicateIds.size === 1 ? '' : 's'}
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="mb-6 p-4 bg-red-500/10 border border-red-500/20 text-red-600 rounded-2xl text-sm flex items-center animate-in slide-in-from-bottom-2 font-medium">
+          <AlertCircle size={18} className="mr-3 flex-shrink-0" /> 
+          <span>{error}</span>
         </div>
+      )}
 
+      <div className="flex justify-end items-center gap-4">
+        <span className={`text-sm font-medium ${textClass}`}>{acceptedCards.length} of {cards.length} cards selected</span>
         <button 
-          onClick={addCard}
-          className={`w-full py-6 border-2 border-dashed rounded-3xl font-bold transition-all flex items-center justify-center gap-2 group ${darkMode ? 'bg-[#1c1c1e] border-gray-800 text-gray-400 hover:border-indigo-500 hover:text-indigo-400' : 'bg-white border-gray-300 text-gray-500 hover:border-indigo-500 hover:text-indigo-600 hover:bg-indigo-50'}`}
+          onClick={handleSave}
+          disabled={!!busyId || acceptedCards.length === 0}
+          className="px-8 py-3.5 bg-gradient-to-r from-indigo-600 to-purple-600 text-white font-bold rounded-full shadow-lg shadow-indigo-500/30 hover:shadow-xl hover:scale-105 active:scale-95 transition-all disabled:opacity-50 disabled:scale-100 disabled:shadow-none flex items-center"
         >
-          <div className={`p-2 rounded-full transition-colors ${darkMode ? 'bg-[#2c2c2e] group-hover:bg-indigo-500/20' : 'bg-gray-100 group-hover:bg-indigo-100'}`}>
-             <Plus size={24} /> 
-          </div>
-          Add Card
+          <Check size={18} className="mr-2" /> {target ? `Add to "${target.title}"` : 'Save Set'}
         </button>
       </div>
     </div>
   );
 };
 
+// 18. AI ANSWER OPTIONS BUTTON
+// Has the AI write distractors for the cards of a set that don't have current ones
+const AnswerOptionsButton = ({ set, onSave, darkMode }) => {
+  const [progress, setProgress] = useState(null); // { done, total } while the AI is writing
+  const abortRef = useRef(null);
+
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const missing = set.cards.filter(c => c.term.trim() && !storedDistractors(c));
+
+  const handleClick = async () => {
+    if (progress) {
+      abortRef.current?.abort();
+      return;
+    }
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const setId = set.id;
+    setProgress({ done: 0, total: missing.length });
+    try {
+      await generateDistractorsAI(missing, {
+        signal: controller.signal,
+        onBatch: (distractors, done) => {
+          onSave(setId, distractors);
+          setProgress({ done, total: missing.length });
+        }
+      });
+    } catch (error) {
+      if (!isAbortError(error)) alert(formatAIError(error));
+    }
+    setProgress(null);
+  };
+
+  return (
+    <button
+      onClick={handleClick}
+      disabled={!progress && missing.length === 0}
+      title={missing.length === 0 ? 'Every card has AI-written wrong answers for Learn and Test' : 'Have the AI write convincing wrong answers for Learn and Test, so questions can\'t be solved by elimination'}
+      className={`px-4 py-2 rounded-full text-sm font-bold flex items-center transition-all disabled:opacity-40 disabled:cursor-not-allowed ${darkMode ? 'bg-[#1c1c1e] text-gray-300 hover:bg-[#2c2c2e]' : 'bg-white text-gray-600 shadow-sm hover:text-indigo-600'}`}
+    >
+      {progress ? (
+        <><Loader2 size={16} className="mr-2 animate-spin" /> Writing answer options {progress.done}/{progress.total} · Stop</>
+      ) : missing.length === 0 ? (
+        <><Check size={16} className="mr-2" /> AI answer options ready</>
+      ) : (
+        <><Sparkles size={16} className="mr-2" /> AI answer options ({missing.length})</>
+      )}
+    </button>
+  );
+};
+
 /**
  * MAIN APP COMPONENT
  */
-const App = () => {
+const App = ({ storage = libraryBackend, speech = defaultSpeech }) => {
   // State
-  const [sets, setSets] = useState(() => {
-    const saved = localStorage.getItem('quizdeck_sets');
-    return saved ? JSON.parse(saved) : INITIAL_SETS;
-  });
-  const [view, setView] = useState('home'); 
-  const [activeSetId, setActiveSetId] = useState(null);
-  const [editingSetId, setEditingSetId] = useState(null);
+  const [sets, setSets] = useState([]);
+  const [isLoaded, setIsLoaded] = useState(false);
+  const [recovery, setRecovery] = useState(null);
+  const savedSetsRef = useRef(null);
+  const [folders, setFolders] = useState([]);
+  const savedFoldersRef = useRef(null);
+  const [sessions, setSessions] = useState([]);
+  const [route, navigate] = useHashRoute();
+  const { view, setId: activeSetId, folderId: activeFolderId } = route;
+  const editingSetId = view === 'edit' ? activeSetId : null;
   const [darkMode, setDarkMode] = useState(false);
   const [showSettings, setShowSettings] = useState(false);
+  const [exportRoute, setExportRoute] = useState(null); // the route the export dialog was opened on; leaving it closes the dialog
+  const showExport = exportRoute === route;
+  const [searchQuery, setSearchQuery] = useState('');
+  const [sortBy, setSortBy] = useState('recent');
+  const [filterBy, setFilterBy] = useState('all');
+  const [selectedTags, setSelectedTags] = useState([]);
+  const [dropTargetId, setDropTargetId] = useState(null);
+  const [starredOnly, setStarredOnly] = useState(false);
+  const deferredQuery = useDeferredValue(searchQuery);
+
+  // Load
+  useEffect(() => {
+    let cancelled = false;
+    openLibrary(storage)
+      .then(library => {
+        if (cancelled) return;
+        savedSetsRef.current = library.sets;
+        savedFoldersRef.current = library.folders;
+        setSets(library.sets);
+        setFolders(library.folders);
+        setRecovery(library.recovery);
+      })
+      .catch(error => {
+        console.error("Library Load Error:", error);
+        if (!cancelled) setRecovery({ message: `Your library couldn't be opened: ${error.message}`, stashKey: null });
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoaded(true);
+      });
+    return () => { cancelled = true; };
+  }, [storage]);
+
+  useEffect(() => {
+    storage.readSessions()
+      .then(setSessions)
+      .catch(error => console.error("Study History Load Error:", error));
+  }, [storage]);
+
+  // Persist only what changed since the last save. The saved state only moves on once a write succeeds, so a failed
+  // write is retried with the next change; overlapping writes may repeat each other's changes, which is harmless
+  useEffect(() => {
+    if (!isLoaded || savedSetsRef.current === sets) return;
+    const changes = diffLibrary(savedSetsRef.current || [], sets);
+    if (!hasChanges(changes)) {
+      savedSetsRef.current = sets;
+      return;
+    }
+    storage.write(changes).then(() => {
+      savedSetsRef.current = sets;
+    }).catch(error => {
+      console.error("Library Save Error:", error);
+      setRecovery({ message: `Your latest changes couldn't be saved: ${error.message}. Download a backup from Settings to keep them safe.`, stashKey: null });
+    });
+  }, [sets, isLoaded, storage]);
 
-  // Persist
   useEffect(() => {
-    localStorage.setItem('quizdeck_sets', JSON.stringify(sets));
-  }, [sets]);
+    if (!isLoaded || savedFoldersRef.current === folders) return;
+    savedFoldersRef.current = folders;
+    storage.write({ ...diffLibrary([], []), meta: { folders } }).catch(error => {
+      console.error("Library Save Error:", error);
+      setRecovery({ message: `Your folder changes couldn't be saved: ${error.message}`, stashKey: null });
+    });
+  }, [folders, isLoaded, storage]);
 
   const activeSet = useMemo(() => sets.find(s => s.id === activeSetId), [sets, activeSetId]);
+  // Every card in the library, so a cross-set review session can look its cards up by id
+  const librarySet = useMemo(() => ({ id: 'library', title: 'All sets', description: '', cards: sets.flatMap(s => s.cards.map(c => ({ ...c, setId: s.id }))) }), [sets]);
+  const dueCountBySet = useMemo(() => Object.fromEntries(sets.map(s => [s.id, getDueCards(s.cards).length])), [sets]);
+  const totalDue = Object.values(dueCountBySet).reduce((sum, n) => sum + n, 0);
+
+  const activeFolder = useMemo(() => folders.find(f => f.id === activeFolderId), [folders, activeFolderId]);
+  const folderPath = useMemo(() => getFolderPath(folders, activeFolderId), [folders, activeFolderId]);
+  const folderTreeIds = useMemo(() => (activeFolderId ? getFolderTreeIds(folders, activeFolderId) : null), [folders, activeFolderId]);
+  const subfolders = useMemo(() => folders.filter(f => f.parentId === (activeFolderId || null)).sort((a, b) => a.name.localeCompare(b.name)), [folders, activeFolderId]);
+  // Every set in the current folder and the folders nested inside it (the whole library at the top level)
+  const scopedSets = useMemo(() => (folderTreeIds ? sets.filter(s => folderTreeIds.has(s.folderId)) : sets), [sets, folderTreeIds]);
+  // All cards of a folder's sets, studied as one deck
+  const folderSet = useMemo(() => activeFolder && {
+    id: `folder-${activeFolder.id}`,
+    title: activeFolder.name,
+    description: '',
+    cards: scopedSets.flatMap(s => s.cards.map(c => ({ ...c, setId: s.id })))
+  }, [activeFolder, scopedSets]);
+  // Study modes get the starred cards only while the toggle is on and there is something starred
+  const studySet = useMemo(() => (starredOnly && activeSet?.cards.some(c => c.starred) ? onlyStarred(activeSet) : activeSet), [activeSet, starredOnly]);
+  const folderStudySet = useMemo(() => (starredOnly && folderSet?.cards.some(c => c.starred) ? onlyStarred(folderSet) : folderSet), [folderSet, starredOnly]);
+  const activeSpeech = getSpeechSettings(activeSet);
+  const scopedDue = activeFolder ? scopedSets.reduce((sum, s) => sum + dueCountBySet[s.id], 0) : totalDue;
+  const scopedTags = useMemo(() => [...new Set(scopedSets.flatMap(s => s.tags || []))].sort(), [scopedSets]);
+
+  // Home grid: filter, search and sort; each entry is { set, match } where match holds highlight ranges.
+  // Searching or filtering by tag looks through nested folders too; otherwise only this folder's own sets show.
+  const visibleSets = useMemo(() => {
+    const tokens = tokenizeQuery(deferredQuery);
+    const tags = selectedTags.filter(tag => scopedTags.includes(tag));
+    const entries = scopedSets
+      .filter(set => tokens.length || tags.length || set.folderId === (activeFolderId || null))
+      .filter(set => tags.every(tag => set.tags?.includes(tag)))
+      .filter(set => filterBy === 'all'
+        || (filterBy === 'due' && dueCountBySet[set.id] > 0)
+        || (filterBy === 'unstudied' && !set.lastStudiedAt))
+      .map(set => ({ set, match: tokens.length ? searchSet(set, tokens) : null }))
+      .filter(entry => !tokens.length || entry.match);
+    const compare = compareSets(sortBy);
+    return entries.sort((a, b) => (sortBy === 'relevance' && tokens.length ? b.match.score - a.match.score : 0) || compare(a.set, b.set));
+  }, [scopedSets, activeFolderId, deferredQuery, selectedTags, scopedTags, sortBy, filterBy, dueCountBySet]);
 
   // Handlers
   const handleSaveSet = (newSet) => {
+    // Sets created from inside a folder (e.g. by the AI generator) land in that folder
+    const saved = !editingSetId && activeFolderId && newSet.folderId === undefined ? { ...newSet, folderId: activeFolderId } : newSet;
     if (editingSetId) {
-      setSets(sets.map(s => s.id === editingSetId ? newSet : s));
-      setEditingSetId(null);
+      setSets(sets.map(s => s.id === editingSetId ? saved : s));
     } else {
-      setSets([...sets, newSet]);
+      setSets([...sets, saved]);
+    }
+    navigate(saved.folderId ? 'folder' : 'home', saved.folderId, { replace: true });
+  };
+
+  const handleMoveSet = (setId, folderId) => {
+    setSets(prev => prev.map(s => s.id === setId ? { ...s, folderId } : s));
+  };
+
+  const handleCreateFolder = () => {
+    const name = window.prompt('Folder name');
+    if (!name?.trim()) return;
+    setFolders([...folders, { id: generateId(), name: name.trim(), parentId: activeFolderId || null }]);
+  };
+
+  const handleRenameFolder = (folder) => {
+    const name = window.prompt('Rename folder', folder.name);
+    if (!name?.trim()) return;
+    setFolders(folders.map(f => f.id === folder.id ? { ...f, name: name.trim() } : f));
+  };
+
+  // Contents of a deleted folder move up to its parent
+  const handleDeleteFolder = (folder) => {
+    if (!window.confirm(`Delete the folder "${folder.name}"? Its sets and subfolders will move up one level.`)) return;
+    setFolders(folders.filter(f => f.id !== folder.id).map(f => f.parentId === folder.id ? { ...f, parentId: folder.parentId } : f));
+    setSets(sets.map(s => s.folderId === folder.id ? { ...s, folderId: folder.parentId } : s));
+    navigate(folder.parentId ? 'folder' : 'home', folder.parentId, { replace: true });
+  };
+
+  const toggleTag = (tag) => {
+    setSelectedTags(prev => prev.includes(tag) ? prev.filter(t => t !== tag) : [...prev, tag]);
+  };
+
+  // Drag a set tile onto a folder tile or breadcrumb to move it there
+  const dropTargetProps = (folderId) => ({
+    onDragOver: (e) => {
+      if (!e.dataTransfer.types.includes('text/x-quizdeck-set')) return;
+      e.preventDefault();
+      setDropTargetId(folderId ?? 'root');
+    },
+    onDragLeave: () => setDropTargetId(null),
+    onDrop: (e) => {
+      e.preventDefault();
+      setDropTargetId(null);
+      const setId = e.dataTransfer.getData('text/x-quizdeck-set');
+      if (setId) handleMoveSet(setId, folderId);
+    }
+  });
+
+  const handleGradeCard = (setId, cardId, grade) => {
+    setSets(prev => prev.map(s => s.id === setId
+      ? { ...s, lastStudiedAt: Date.now(), cards: s.cards.map(c => c.id === cardId ? { ...c, review: scheduleReview(c.review, grade) } : c) }
+      : s
+    ));
+  };
+
+  const handleSessionEnd = (session) => {
+    setSessions(prev => [...prev, session]);
+    storage.addSession(session).catch(error => {
+      console.error("Study History Save Error:", error);
+      setRecovery({ message: `Your study session couldn't be saved: ${error.message}`, stashKey: null });
+    });
+  };
+
+  const handleToggleStar = (setId, cardId) => {
+    setSets(prev => prev.map(s => s.id === setId
+      ? { ...s, cards: s.cards.map(c => c.id === cardId ? { ...c, starred: !c.starred } : c) }
+      : s
+    ));
+  };
+
+  const handleAddCards = (setId, cards) => {
+    setSets(prev => prev.map(s => s.id === setId ? { ...s, cards: [...s.cards, ...cards] } : s));
+  };
+
+  const handleAppendCards = (setId, cards) => {
+    handleAddCards(setId, cards);
+    navigate('set', setId, { replace: true });
+  };
+
+  // Card ids are only unique within their set, so the set is named too
+  const handleUpdateCard = (setId, cardId, changes) => {
+    setSets(prev => prev.map(s => s.id === setId
+      ? { ...s, cards: s.cards.map(c => c.id === cardId ? { ...c, ...changes } : c) }
+      : s
+    ));
+  };
+
+  // distractorsById: { [cardId]: distractors } as written by generateDistractorsAI for the cards of set setId
+  const handleSaveDistractors = (setId, distractorsById) => {
+    setSets(prev => prev.map(s => s.id === setId
+      ? { ...s, cards: s.cards.map(c => distractorsById[c.id] ? { ...c, distractors: distractorsById[c.id] } : c) }
+      : s
+    ));
+  };
+
+  const handleStudy = (mode, setId) => {
+    setSets(prev => prev.map(s => s.id === setId ? { ...s, lastStudiedAt: Date.now() } : s));
+    navigate(mode, setId);
+  };
+
+  const handleRestore = (restored, mode) => {
+    setSets(prev => mode === 'replace' ? restored.sets : mergeLibraries(prev, restored.sets));
+    setFolders(prev => mode === 'replace' ? restored.folders : mergeFolders(prev, restored.folders));
+    // Study history is merged either way; replacing the library doesn't erase past sessions
+    const known = new Set(sessions.map(s => s.id));
+    const added = restored.sessions.filter(s => !known.has(s.id));
+    if (added.length > 0) {
+      setSessions(prev => mergeSessions(prev, added));
+      Promise.all(added.map(session => storage.addSession(session))).catch(error => {
+        console.error("Study History Save Error:", error);
+        setRecovery({ message: `The study history in this backup couldn't be saved: ${error.message}`, stashKey: null });
+      });
     }
-    setView('home');
+    navigate('home');
+  };
+
+  const handleDownloadUnreadable = () => {
+    const raw = recovery?.stashKey && localStorage.getItem(recovery.stashKey);
+    if (raw) downloadFile(raw, 'quizdeck-unreadable-library.json', 'application/json');
   };
 
   const handleDeleteSet = (id) => {
     if(window.confirm('Are you sure you want to delete this set?')) {
+      const folderId = sets.find(s => s.id === id)?.folderId;
       setSets(sets.filter(s => s.id !== id));
-      setView('home');
-      setActiveSetId(null);
+      navigate(folderId ? 'folder' : 'home', folderId, { replace: true });
     }
   };
 
@@ -1058,40 +5659,115 @@ const App = () => {
   const cardHover = darkMode ? 'hover:bg-[#2c2c2e]' : 'hover:shadow-xl hover:shadow-black/5 hover:-translate-y-1';
 
   // View Switcher
+  const renderStarredToggle = (cards) => {
+    const starredCount = cards.filter(c => c.starred).length;
+    const active = starredOnly && starredCount > 0;
+    return (
+      <button
+        onClick={() => setStarredOnly(!starredOnly)}
+        disabled={starredCount === 0}
+        title={starredCount === 0 ? 'Star cards to study them on their own' : 'Study only starred cards'}
+        className={`px-4 py-2 rounded-full text-sm font-bold flex items-center transition-all disabled:opacity-40 disabled:cursor-not-allowed ${active ? 'bg-amber-400 text-white shadow-lg shadow-amber-500/30' : darkMode ? 'bg-[#1c1c1e] text-gray-300 hover:bg-[#2c2c2e]' : 'bg-white text-gray-600 shadow-sm hover:text-amber-500'}`}
+      >
+        <Star size={16} className="mr-2" fill={active ? 'currentColor' : 'none'} /> Starred only ({starredCount})
+      </button>
+    );
+  };
+
   const renderContent = () => {
+    const missing = activeSetId && !activeSet ? 'set' : activeFolderId && !activeFolder ? 'folder' : null;
+    if (missing) {
+      return (
+        <div className="max-w-5xl mx-auto p-4 text-center py-32 animate-in fade-in">
+          <h1 className={`text-3xl font-bold mb-4 tracking-tight ${darkMode ? 'text-white' : 'text-gray-900'}`}>{missing === 'set' ? 'Set' : 'Folder'} not found</h1>
+          <p className={`text-lg mb-8 ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>This {missing === 'set' ? 'study set' : 'folder'} may have been deleted.</p>
+          <button onClick={() => navigate('home', null, { replace: true })} className="text-indigo-500 font-bold hover:text-indigo-600 hover:underline">Back to Library</button>
+        </div>
+      );
+    }
+
     switch(view) {
+      case 'stats':
+        return <StatsDashboard sessions={sessions} sets={sets} onBack={() => navigate('home')} onOpenSet={(id) => navigate('set', id)} darkMode={darkMode} />;
+
       case 'ai-create':
-        return <AIGenerator onSave={handleSaveSet} onCancel={() => setView('home')} darkMode={darkMode} />;
+      case 'folder-magic':
+        return <AIGenerator onSave={handleSaveSet} onAppend={handleAppendCards} sets={sets} onCancel={() => (activeFolderId ? navigate('folder', activeFolderId) : navigate('home'))} darkMode={darkMode} />;
 
       case 'create':
-        return <CreateSet onSave={handleSaveSet} onCancel={() => setView('home')} editSet={editingSetId ? sets.find(s => s.id === editingSetId) : null} darkMode={darkMode} />;
+      case 'folder-create':
+      case 'edit':
+        return (
+          <CreateSet
+            key={editingSetId || 'new'}
+            onSave={handleSaveSet}
+            onCancel={() => (editingSetId ? navigate('set', editingSetId) : activeFolderId ? navigate('folder', activeFolderId) : navigate('home'))}
+            editSet={editingSetId ? activeSet : null}
+            folders={folders}
+            defaultFolderId={activeFolderId}
+            speech={speech}
+            darkMode={darkMode}
+          />
+        );
+
+      case 'folder-flashcards':
+      case 'folder-review':
+        return <FlashcardMode key={view} set={folderSet} sets={sets} onBack={() => navigate('folder', activeFolderId)} onGrade={handleGradeCard} dueOnly={view === 'folder-review'} starredOnly={folderStudySet !== folderSet} onToggleStar={handleToggleStar} onSessionEnd={handleSessionEnd} speech={speech} darkMode={darkMode} />;
+
+      case 'folder-learn':
+        return <LearnMode set={folderStudySet} onBack={() => navigate('folder', activeFolderId)} onSessionEnd={handleSessionEnd} darkMode={darkMode} />;
+
+      case 'folder-write':
+        return <WriteMode set={folderStudySet} onBack={() => navigate('folder', activeFolderId)} onSessionEnd={handleSessionEnd} darkMode={darkMode} />;
+
+      case 'folder-test':
+        return <TestMode set={folderStudySet} onBack={() => navigate('folder', activeFolderId)} onSessionEnd={handleSessionEnd} darkMode={darkMode} />;
       
       case 'flashcards':
-        return <FlashcardMode set={activeSet} onBack={() => setView('set')} darkMode={darkMode} />;
+        return <FlashcardMode key={view} set={activeSet} onBack={() => navigate('set', activeSetId)} onGrade={handleGradeCard} starredOnly={studySet !== activeSet} onToggleStar={handleToggleStar} onSessionEnd={handleSessionEnd} speech={speech} darkMode={darkMode} />;
+
+      case 'review':
+        return <FlashcardMode key={view} set={activeSet} onBack={() => navigate('set', activeSetId)} onGrade={handleGradeCard} dueOnly starredOnly={studySet !== activeSet} onToggleStar={handleToggleStar} onSessionEnd={handleSessionEnd} speech={speech} darkMode={darkMode} />;
+
+      case 'review-all':
+        return <FlashcardMode set={librarySet} sets={sets} onBack={() => navigate('home')} onGrade={handleGradeCard} dueOnly onToggleStar={handleToggleStar} onSessionEnd={handleSessionEnd} speech={speech} darkMode={darkMode} />;
       
       case 'match':
-        return <MatchMode set={activeSet} onBack={() => setView('set')} darkMode={darkMode} />;
+        return <MatchMode set={studySet} onBack={() => navigate('set', activeSetId)} onSessionEnd={handleSessionEnd} darkMode={darkMode} />;
 
       case 'learn':
-        return <LearnMode set={activeSet} onBack={() => setView('set')} darkMode={darkMode} />;
+        return <LearnMode set={studySet} onBack={() => navigate('set', activeSetId)} onSessionEnd={handleSessionEnd} darkMode={darkMode} />;
+
+      case 'write':
+        return <WriteMode set={studySet} onBack={() => navigate('set', activeSetId)} onSessionEnd={handleSessionEnd} darkMode={darkMode} />;
+
+      case 'test':
+        return <TestMode set={studySet} onBack={() => navigate('set', activeSetId)} onSessionEnd={handleSessionEnd} darkMode={darkMode} />;
       
       case 'set':
         if (!activeSet) return null;
         return (
           <div className="max-w-5xl mx-auto p-4 animate-in fade-in">
             <div className="mb-12">
-               <button onClick={() => setView('home')} className="mb-6 flex items-center text-indigo-500 hover:text-indigo-600 font-semibold transition-colors"><ChevronLeft size={20} className="mr-1" /> Library</button>
+               <button onClick={() => (activeSet.folderId ? navigate('folder', activeSet.folderId) : navigate('home'))} className="mb-6 flex items-center text-indigo-500 hover:text-indigo-600 font-semibold transition-colors"><ChevronLeft size={20} className="mr-1" /> {folders.find(f => f.id === activeSet.folderId)?.name || 'Library'}</button>
                <h1 className={`text-5xl font-bold mb-4 tracking-tight leading-tight ${darkMode ? 'text-white' : 'text-gray-900'}`}>{activeSet.title}</h1>
                <div className="flex justify-between items-start">
                  <p className={`text-xl leading-relaxed ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>{activeSet.description}</p>
                  <div className="flex gap-3">
                    <button 
-                     onClick={() => { setEditingSetId(activeSet.id); setView('create'); }} 
+                     onClick={() => navigate('edit', activeSet.id)} 
                      className={`p-3 rounded-full transition-all ${darkMode ? 'bg-[#1c1c1e] text-gray-400 hover:bg-[#2c2c2e] hover:text-white' : 'bg-white text-gray-400 hover:text-indigo-600 hover:shadow-lg'}`}
                      title="Edit Set"
                     >
                      <Settings size={20} />
                    </button>
+                   <button 
+                     onClick={() => setExportRoute(route)}
+                     className={`p-3 rounded-full transition-all ${darkMode ? 'bg-[#1c1c1e] text-gray-400 hover:bg-[#2c2c2e] hover:text-white' : 'bg-white text-gray-400 hover:text-indigo-600 hover:shadow-lg'}`}
+                     title="Export Set"
+                   >
+                     <Download size={20} />
+                   </button>
                    <button 
                      onClick={() => handleDeleteSet(activeSet.id)}
                      className={`p-3 rounded-full transition-all ${darkMode ? 'bg-[#1c1c1e] text-gray-400 hover:bg-[#2c2c2e] hover:text-red-400' : 'bg-white text-gray-400 hover:text-red-600 hover:shadow-lg'}`}
@@ -1103,16 +5779,38 @@ const App = () => {
                </div>
             </div>
 
+            {/* Review Due */}
+            {dueCountBySet[activeSet.id] > 0 && (
+              <div className={`mb-6 p-6 rounded-3xl border flex items-center justify-between gap-4 ${darkMode ? 'bg-[#1c1c1e] border-gray-800' : 'bg-white border-white/50 shadow-sm'}`}>
+                <div className="flex items-center gap-4">
+                  <div className="p-3 rounded-2xl bg-rose-500/10 text-rose-500"><RotateCw size={24} strokeWidth={2.5} /></div>
+                  <div>
+                    <h3 className={`text-lg font-bold tracking-tight ${darkMode ? 'text-gray-100' : 'text-gray-900'}`}>Review due</h3>
+                    <p className={`text-sm font-medium ${darkMode ? 'text-gray-500' : 'text-gray-500'}`}>{dueCountBySet[activeSet.id]} of {activeSet.cards.length} cards are due today.</p>
+                  </div>
+                </div>
+                <button onClick={() => handleStudy('review', activeSet.id)} className="px-6 py-3 bg-rose-500 text-white font-bold rounded-full hover:bg-rose-600 shadow-lg shadow-rose-500/30 active:scale-95 transition-all flex items-center">
+                  <Play size={16} className="mr-2" /> Review now
+                </button>
+              </div>
+            )}
+
             {/* Action Cards */}
-            <div className="grid grid-cols-1 md:grid-cols-3 gap-6 mb-12">
+            <div className="flex justify-end gap-3 mb-4">
+              <AnswerOptionsButton set={activeSet} onSave={handleSaveDistractors} darkMode={darkMode} />
+              {renderStarredToggle(activeSet.cards)}
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-5 gap-6 mb-12">
                {[
                  { id: 'flashcards', icon: Layers, title: 'Flashcards', desc: 'Review terms.', color: 'text-indigo-500', bg: 'bg-indigo-500/10' },
                  { id: 'learn', icon: Brain, title: 'Learn', desc: 'Master the set.', color: 'text-emerald-500', bg: 'bg-emerald-500/10' },
-                 { id: 'match', icon: Gamepad2, title: 'Match', desc: 'Race time.', color: 'text-amber-500', bg: 'bg-amber-500/10' }
+                 { id: 'write', icon: PenLine, title: 'Write', desc: 'Type the answer.', color: 'text-sky-500', bg: 'bg-sky-500/10' },
+                 { id: 'match', icon: Gamepad2, title: 'Match', desc: 'Race time.', color: 'text-amber-500', bg: 'bg-amber-500/10' },
+                 { id: 'test', icon: ClipboardList, title: 'Test', desc: 'Mock exam.', color: 'text-rose-500', bg: 'bg-rose-500/10' }
                ].map(mode => (
                  <button 
                     key={mode.id}
-                    onClick={() => setView(mode.id)} 
+                    onClick={() => handleStudy(mode.id, activeSet.id)} 
                     className={`group flex flex-col items-start p-8 rounded-3xl border shadow-sm transition-all duration-300 ${cardBg} ${cardHover}`}
                   >
                     <div className={`p-4 rounded-2xl mb-5 transition-transform group-hover:scale-110 ${mode.bg} ${mode.color}`}>
@@ -1133,10 +5831,23 @@ const App = () => {
                 {activeSet.cards.map(card => (
                   <div key={card.id} className={`p-6 md:p-8 grid grid-cols-1 md:grid-cols-3 gap-6 transition ${darkMode ? 'hover:bg-[#2c2c2e]' : 'hover:bg-gray-50/50'}`}>
                     <div className={`md:col-span-1 border-r-0 md:border-r md:pr-6 font-semibold text-lg ${darkMode ? 'border-gray-800 text-gray-200' : 'border-gray-100 text-gray-900'}`}>
-                      {card.term}
+                      <div className="flex justify-between items-start gap-2">
+                        <CardContent text={card.term} image={card.termImage} imageClassName="max-h-32 !mx-0" />
+                        <SpeakButton speech={speech} text={card.term} voice={activeSpeech.term} darkMode={darkMode} className="flex-shrink-0" />
+                      </div>
                     </div>
-                    <div className={`md:col-span-2 text-lg ${darkMode ? 'text-gray-400' : 'text-gray-600'}`}>
-                      {card.def}
+                    <div className={`md:col-span-2 text-lg flex justify-between items-start gap-4 ${darkMode ? 'text-gray-400' : 'text-gray-600'}`}>
+                      <CardContent text={card.def} image={card.defImage} imageClassName="max-h-32 !mx-0" />
+                      <div className="flex items-center gap-1 flex-shrink-0">
+                        <SpeakButton speech={speech} text={card.def} voice={activeSpeech.def} darkMode={darkMode} />
+                        <button
+                          onClick={() => handleToggleStar(activeSet.id, card.id)}
+                          className={`p-1 rounded-full transition-all active:scale-90 ${card.starred ? 'text-amber-400' : darkMode ? 'text-gray-600 hover:text-gray-400' : 'text-gray-300 hover:text-gray-400'}`}
+                          title={card.starred ? 'Unstar' : 'Star'}
+                        >
+                          <Star size={20} fill={card.starred ? 'currentColor' : 'none'} />
+                        </button>
+                      </div>
                     </div>
                   </div>
                 ))}
@@ -1145,24 +5856,55 @@ const App = () => {
           </div>
         );
 
+      case 'folder':
       case 'home':
       default:
         return (
           <div className="max-w-5xl mx-auto p-6 animate-in fade-in">
+            {activeFolder && (
+              <div className="flex flex-wrap items-center gap-1 mb-4 text-sm font-semibold">
+                {[{ id: null, name: 'Library' }, ...folderPath.slice(0, -1)].map(crumb => (
+                  <React.Fragment key={crumb.id || 'root'}>
+                    <button
+                      onClick={() => (crumb.id ? navigate('folder', crumb.id) : navigate('home'))}
+                      {...dropTargetProps(crumb.id)}
+                      className={`px-2 py-1 rounded-lg text-indigo-500 hover:text-indigo-600 transition-colors ${dropTargetId === (crumb.id ?? 'root') ? 'bg-indigo-500/10' : ''}`}
+                    >
+                      {crumb.name}
+                    </button>
+                    <ChevronRight size={14} className="text-gray-400" />
+                  </React.Fragment>
+                ))}
+              </div>
+            )}
             <div className="flex flex-col md:flex-row justify-between items-end mb-12 gap-6">
                <div>
-                 <h1 className={`text-4xl font-bold tracking-tight mb-2 ${darkMode ? 'text-white' : 'text-gray-900'}`}>Library</h1>
-                 <p className={`text-lg ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>Manage your study sets</p>
+                 <h1 className={`text-4xl font-bold tracking-tight mb-2 flex items-center gap-3 ${darkMode ? 'text-white' : 'text-gray-900'}`}>
+                   {activeFolder ? activeFolder.name : 'Library'}
+                   {activeFolder && (
+                     <>
+                       <button onClick={() => handleRenameFolder(activeFolder)} className="p-2 rounded-full text-gray-400 hover:text-indigo-500 transition" title="Rename Folder"><PenLine size={18} /></button>
+                       <button onClick={() => handleDeleteFolder(activeFolder)} className="p-2 rounded-full text-gray-400 hover:text-red-500 transition" title="Delete Folder"><Trash2 size={18} /></button>
+                     </>
+                   )}
+                 </h1>
+                 <p className={`text-lg ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>{activeFolder ? `${scopedSets.length} ${scopedSets.length === 1 ? 'set' : 'sets'} in this folder` : 'Manage your study sets'}</p>
                </div>
                <div className="flex gap-4">
+                 <button
+                   onClick={handleCreateFolder}
+                   className={`border px-6 py-3 rounded-full font-bold shadow-sm transition-all hover:scale-105 active:scale-95 flex items-center ${darkMode ? 'bg-[#1c1c1e] border-gray-700 text-gray-300 hover:bg-[#2c2c2e]' : 'bg-white border-white text-gray-700 hover:bg-gray-50'}`}
+                 >
+                   <FolderPlus size={18} className="mr-2" /> Folder
+                 </button>
                  <button 
-                   onClick={() => setView('ai-create')}
+                   onClick={() => (activeFolder ? navigate('folder-magic', activeFolder.id) : navigate('ai-create'))}
                    className="bg-gradient-to-r from-indigo-600 to-purple-600 text-white px-6 py-3 rounded-full font-bold shadow-lg shadow-indigo-500/30 hover:scale-105 active:scale-95 transition-all flex items-center"
                  >
                    <Sparkles size={18} className="mr-2" /> Magic Create
                  </button>
                  <button 
-                   onClick={() => { setEditingSetId(null); setView('create'); }}
+                   onClick={() => (activeFolder ? navigate('folder-create', activeFolder.id) : navigate('create'))}
                    className={`border px-6 py-3 rounded-full font-bold shadow-sm transition-all hover:scale-105 active:scale-95 flex items-center ${darkMode ? 'bg-[#1c1c1e] border-gray-700 text-gray-300 hover:bg-[#2c2c2e]' : 'bg-white border-white text-gray-700 hover:bg-gray-50'}`}
                  >
                    <Plus size={18} className="mr-2" /> Manual
@@ -1170,29 +5912,160 @@ const App = () => {
                </div>
             </div>
 
-            {sets.length === 0 ? (
+            {activeFolder && folderSet.cards.length > 0 && (
+              <div className="flex justify-end mb-4">{renderStarredToggle(folderSet.cards)}</div>
+            )}
+            {activeFolder && folderSet.cards.length > 0 && (
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-8">
+                {FOLDER_STUDY_MODES.map(mode => (
+                  <button
+                    key={mode.id}
+                    onClick={() => navigate(`folder-${mode.id}`, activeFolder.id)}
+                    className={`flex items-center gap-3 p-5 rounded-3xl border shadow-sm font-bold transition-all duration-300 ${cardBg} ${cardHover}`}
+                  >
+                    <mode.icon size={22} strokeWidth={2.5} className="text-indigo-500" /> {mode.title}
+                  </button>
+                ))}
+              </div>
+            )}
+
+            {scopedDue > 0 && (
+              <div className={`mb-8 p-6 rounded-3xl border flex items-center justify-between gap-4 ${darkMode ? 'bg-[#1c1c1e] border-gray-800' : 'bg-white border-white/50 shadow-sm'}`}>
+                <div className="flex items-center gap-4">
+                  <div className="p-3 rounded-2xl bg-rose-500/10 text-rose-500"><RotateCw size={24} strokeWidth={2.5} /></div>
+                  <div>
+                    <h3 className={`text-lg font-bold tracking-tight ${darkMode ? 'text-gray-100' : 'text-gray-900'}`}>Review due</h3>
+                    <p className={`text-sm font-medium ${darkMode ? 'text-gray-500' : 'text-gray-500'}`}>{scopedDue} cards across {scopedSets.filter(s => dueCountBySet[s.id] > 0).length} sets are waiting for you.</p>
+                  </div>
+                </div>
+                <button onClick={() => (activeFolder ? navigate('folder-review', activeFolder.id) : navigate('review-all'))} className="px-6 py-3 bg-rose-500 text-white font-bold rounded-full hover:bg-rose-600 shadow-lg shadow-rose-500/30 active:scale-95 transition-all flex items-center">
+                  <Play size={16} className="mr-2" /> Review all
+                </button>
+              </div>
+            )}
+
+            {scopedSets.length > 0 && (
+              <div className="flex flex-col md:flex-row gap-3 mb-4">
+                <div className={`flex-1 flex items-center rounded-full px-5 py-3 transition-all ${darkMode ? 'bg-[#1c1c1e] focus-within:bg-[#2c2c2e]' : 'bg-white shadow-sm focus-within:ring-2 focus-within:ring-indigo-500/20'}`}>
+                  <Search size={18} className="text-gray-400 mr-3" />
+                  <input
+                    type="text"
+                    value={searchQuery}
+                    onChange={(e) => setSearchQuery(e.target.value)}
+                    placeholder="Search sets, terms and definitions"
+                    className={`bg-transparent border-none outline-none flex-1 text-sm ${darkMode ? 'text-white placeholder-gray-500' : 'text-gray-900 placeholder-gray-400'}`}
+                  />
+                  {searchQuery && (
+                    <button onClick={() => setSearchQuery('')} className="text-gray-400 hover:text-gray-600 transition"><X size={16} /></button>
+                  )}
+                </div>
+                {[[filterBy, setFilterBy, LIBRARY_FILTERS], [sortBy, setSortBy, LIBRARY_SORTS]].map(([value, onChange, options], i) => (
+                  <select
+                    key={i}
+                    value={value}
+                    onChange={(e) => onChange(e.target.value)}
+                    className={`rounded-full px-5 py-3 text-sm font-semibold outline-none cursor-pointer ${darkMode ? 'bg-[#1c1c1e] text-gray-300' : 'bg-white text-gray-700 shadow-sm'}`}
+                  >
+                    {options.map(opt => <option key={opt.id} value={opt.id}>{opt.label}</option>)}
+                  </select>
+                ))}
+              </div>
+            )}
+
+            {scopedTags.length > 0 && (
+              <div className="flex flex-wrap items-center gap-2 mb-8">
+                <Tag size={16} className="text-gray-400 mr-1" />
+                {scopedTags.map(tag => (
+                  <button
+                    key={tag}
+                    onClick={() => toggleTag(tag)}
+                    className={`text-xs font-bold px-3 py-1.5 rounded-full transition-all ${selectedTags.includes(tag) ? 'bg-indigo-600 text-white' : darkMode ? 'bg-[#1c1c1e] text-gray-400 hover:text-white' : 'bg-white text-gray-600 shadow-sm hover:text-indigo-600'}`}
+                  >
+                    #{tag}
+                  </button>
+                ))}
+              </div>
+            )}
+
+            {subfolders.length > 0 && (
+              <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-4 mb-8">
+                {subfolders.map(folder => {
+                  const folderIds = getFolderTreeIds(folders, folder.id);
+                  const count = sets.filter(s => folderIds.has(s.folderId)).length;
+                  return (
+                    <button
+                      key={folder.id}
+                      onClick={() => navigate('folder', folder.id)}
+                      {...dropTargetProps(folder.id)}
+                      className={`flex items-center gap-3 p-5 rounded-3xl border shadow-sm text-left transition-all duration-300 ${cardBg} ${cardHover} ${dropTargetId === folder.id ? 'ring-2 ring-indigo-500' : ''}`}
+                    >
+                      <div className="p-2.5 rounded-xl bg-indigo-500/10 text-indigo-500"><Folder size={20} strokeWidth={2.5} /></div>
+                      <div className="min-w-0">
+                        <h3 className={`font-bold truncate ${darkMode ? 'text-gray-100' : 'text-gray-900'}`}>{folder.name}</h3>
+                        <p className="text-xs font-medium text-gray-400">{count} {count === 1 ? 'set' : 'sets'}</p>
+                      </div>
+                    </button>
+                  );
+                })}
+              </div>
+            )}
+
+            {scopedSets.length === 0 && activeFolder ? (
+              <div className="text-center py-24">
+                <h3 className={`text-xl font-bold mb-2 ${darkMode ? 'text-white' : 'text-gray-900'}`}>This folder is empty</h3>
+                <p className="text-gray-400">Create a set here, or drag sets onto the folder from the library.</p>
+              </div>
+            ) : sets.length === 0 ? (
               <div className={`text-center py-32 rounded-3xl border-2 border-dashed ${darkMode ? 'bg-[#1c1c1e] border-gray-800' : 'bg-white border-gray-200'}`}>
                 <div className="w-20 h-20 bg-gray-100 rounded-full flex items-center justify-center mx-auto mb-6 text-gray-300">
                    <Library size={40} />
                 </div>
                 <h3 className={`text-2xl font-bold mb-2 ${darkMode ? 'text-white' : 'text-gray-900'}`}>No study sets yet</h3>
                 <p className="text-gray-400 mb-8 max-w-md mx-auto">Create your first flashcard deck to get started learning faster.</p>
-                <button onClick={() => setView('ai-create')} className="text-indigo-500 font-bold hover:text-indigo-600 hover:underline flex items-center justify-center mx-auto"><Sparkles size={18} className="mr-2"/> Generate with AI</button>
+                <button onClick={() => navigate('ai-create')} className="text-indigo-500 font-bold hover:text-indigo-600 hover:underline flex items-center justify-center mx-auto"><Sparkles size={18} className="mr-2"/> Generate with AI</button>
+              </div>
+            ) : visibleSets.length === 0 ? (
+              (searchQuery || selectedTags.length > 0 || filterBy !== 'all' || subfolders.length === 0) && <div className="text-center py-24">
+                <h3 className={`text-xl font-bold mb-2 ${darkMode ? 'text-white' : 'text-gray-900'}`}>No matching sets</h3>
+                <p className="text-gray-400">Try a different search or filter.</p>
               </div>
             ) : (
               <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-                {sets.map(set => (
+                {visibleSets.map(({ set, match }) => (
                   <div 
                     key={set.id} 
-                    onClick={() => { setActiveSetId(set.id); setView('set'); }}
+                    onClick={() => navigate('set', set.id)}
+                    draggable
+                    onDragStart={(e) => {
+                      e.dataTransfer.setData('text/x-quizdeck-set', set.id);
+                      e.dataTransfer.effectAllowed = 'move';
+                    }}
                     className={`p-8 rounded-3xl shadow-sm border cursor-pointer transition-all duration-300 group relative overflow-hidden ${cardBg} ${cardHover}`}
                   >
-                    <h3 className={`text-xl font-bold mb-3 line-clamp-1 group-hover:text-indigo-500 transition-colors ${darkMode ? 'text-gray-100' : 'text-gray-900'}`}>{set.title}</h3>
-                    <p className={`text-sm mb-6 line-clamp-2 h-10 leading-relaxed ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>{set.description || "No description"}</p>
-                    <div className="flex items-center gap-2">
+                    <h3 className={`text-xl font-bold mb-3 line-clamp-1 group-hover:text-indigo-500 transition-colors ${darkMode ? 'text-gray-100' : 'text-gray-900'}`}><HighlightedText text={set.title} ranges={match?.title} /></h3>
+                    <p className={`text-sm mb-6 line-clamp-2 h-10 leading-relaxed ${darkMode ? 'text-gray-400' : 'text-gray-500'}`}>{set.description ? <HighlightedText text={set.description} ranges={match?.description} /> : "No description"}</p>
+                    {match?.cards.length > 0 && (
+                      <div className={`mb-6 space-y-1.5 text-sm ${darkMode ? 'text-gray-400' : 'text-gray-600'}`}>
+                        {match.cards.slice(0, 2).map(hit => (
+                          <p key={hit.card.id} className="line-clamp-1">
+                            <span className="font-semibold"><HighlightedText text={hit.card.term} ranges={hit.term} /></span> — <HighlightedText text={hit.card.def} ranges={hit.def} />
+                          </p>
+                        ))}
+                        {match.cards.length > 2 && <p className="text-xs font-medium text-gray-400">+{match.cards.length - 2} more matching cards</p>}
+                      </div>
+                    )}
+                    <div className="flex flex-wrap items-center gap-2">
                       <span className={`text-xs font-bold px-3 py-1.5 rounded-full ${darkMode ? 'bg-[#2c2c2e] text-indigo-300' : 'bg-indigo-50 text-indigo-600'}`}>
                         {set.cards.length} terms
                       </span>
+                      {dueCountBySet[set.id] > 0 && (
+                        <span className={`text-xs font-bold px-3 py-1.5 rounded-full ${darkMode ? 'bg-rose-500/10 text-rose-300' : 'bg-rose-50 text-rose-600'}`}>
+                          {dueCountBySet[set.id]} due
+                        </span>
+                      )}
+                      {set.tags?.map(tag => (
+                        <span key={tag} className={`text-xs font-semibold px-2.5 py-1.5 rounded-full ${darkMode ? 'bg-[#2c2c2e] text-gray-400' : 'bg-gray-100 text-gray-500'}`}>#{tag}</span>
+                      ))}
                     </div>
                   </div>
                 ))}
@@ -1210,7 +6083,7 @@ const App = () => {
         <div className="max-w-7xl mx-auto px-6 h-16 flex items-center justify-between">
           <div 
             className="flex items-center gap-3 cursor-pointer select-none group" 
-            onClick={() => setView('home')}
+            onClick={() => navigate('home')}
           >
             <div className="w-10 h-10 bg-gradient-to-tr from-indigo-600 to-purple-600 rounded-xl flex items-center justify-center text-white shadow-lg shadow-indigo-500/20 transition-transform group-hover:scale-105">
               <Brain size={24} strokeWidth={2.5} />
@@ -1219,6 +6092,13 @@ const App = () => {
           </div>
           
           <div className="flex items-center gap-4">
+            <button 
+              onClick={() => navigate('stats')}
+              className={`p-2.5 rounded-full transition-all active:scale-95 ${darkMode ? 'bg-[#1c1c1e] text-gray-300 hover:bg-[#2c2c2e]' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'}`}
+              title="Statistics"
+            >
+              <ChartColumn size={20} />
+            </button>
             <button 
               onClick={() => setShowSettings(true)}
               className={`p-2.5 rounded-full transition-all active:scale-95 ${darkMode ? 'bg-[#1c1c1e] text-gray-300 hover:bg-[#2c2c2e]' : 'bg-gray-100 text-gray-600 hover:bg-gray-200'}`}
@@ -1242,9 +6122,35 @@ const App = () => {
 
       {/* Main Content */}
       <main className="pt-8 pb-24 relative px-2">
-        {renderContent()}
-        <ChatWidget activeSet={view === 'set' || view === 'flashcards' || view === 'learn' ? activeSet : null} darkMode={darkMode} />
-        <SettingsModal isOpen={showSettings} onClose={() => setShowSettings(false)} darkMode={darkMode} />
+        {recovery && (
+          <div className="max-w-5xl mx-auto px-4 mb-8">
+            <div className="p-4 bg-amber-500/10 border border-amber-500/20 text-amber-600 rounded-2xl text-sm flex items-center gap-3 font-medium">
+              <AlertCircle size={18} className="flex-shrink-0" />
+              <span className="flex-1">
+                {recovery.message} {recovery.stashKey ? 'A copy of the original data was kept.' : ''} You can restore a backup from Settings.
+              </span>
+              {recovery.stashKey && (
+                <button onClick={handleDownloadUnreadable} className="px-3 py-1.5 rounded-full bg-amber-500 text-white font-semibold hover:bg-amber-600 transition-all whitespace-nowrap">Download copy</button>
+              )}
+              <button onClick={() => setRecovery(null)} className="p-1.5 rounded-full hover:bg-amber-500/20 transition"><X size={16} /></button>
+            </div>
+          </div>
+        )}
+        {isLoaded ? renderContent() : (
+          <div className="flex justify-center py-32">
+            <Loader2 size={32} className="animate-spin text-indigo-500" />
+          </div>
+        )}
+        <ChatWidget activeSet={view === 'set' || view === 'flashcards' || view === 'review' || view === 'learn' || view === 'write' ? activeSet : null}
+          storage={storage}
+          onAddCards={handleAddCards}
+          onUpdateCard={handleUpdateCard}
+          onEditSet={(setId) => navigate('edit', setId)}
+          onSessionEnd={handleSessionEnd}
+          darkMode={darkMode}
+        />
+        <SettingsModal isOpen={showSettings} onClose={() => setShowSettings(false)} sets={sets} folders={folders} sessions={sessions} onRestore={handleRestore} darkMode={darkMode} />
+        {showExport && view === 'set' && activeSet && <ExportModal set={activeSet} onClose={() => setExportRoute(null)} darkMode={darkMode} />}
       </main>
 
       {/* CSS for 3D Flip */}
@@ -1260,6 +6166,15 @@ const App = () => {
           75% { transform: translateX(5px); }
         }
         .animate-shake { animation: shake 0.4s ease-in-out; }
+
+        .card-content ul { list-style: disc; padding-left: 1.5em; text-align: left; }
+        .card-content ol { list-style: decimal; padding-left: 1.5em; text-align: left; }
+        .card-content code { font-family: ui-monospace, monospace; font-size: 0.85em; padding: 0.1em 0.35em; border-radius: 0.375rem; background: rgba(127, 127, 127, 0.15); }
+        .card-content pre { text-align: left; padding: 0.75em 1em; border-radius: 0.75rem; background: rgba(127, 127, 127, 0.15); overflow-x: auto; }
+        .card-content pre code { padding: 0; background: none; }
+        .card-content a { color: #6366f1; text-decoration: underline; }
+        .card-content .katex-display { margin: 0.5em 0; overflow-x: auto; }
+        .chat-message .card-content > * + * { margin-top: 0.5em; }
       `}</style>
     </div>
   );
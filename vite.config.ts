@@ -1,7 +1,20 @@
-import { defineConfig } from 'vite'
+import { defineConfig, loadEnv } from 'vite'
 import react from '@vitejs/plugin-react'
 
 // https://vite.dev/config/
-export default defineConfig({
-  plugins: [react()],
+export default defineConfig(({ mode }) => {
+  const env = loadEnv(mode, process.cwd(), 'VITE_')
+  // A build for the API server must not carry a Gemini key: it would be readable by anyone who opens the app
+  if (env.VITE_AI_PROXY_URL && env.VITE_GEMINI_KEY) {
+    throw new Error('VITE_AI_PROXY_URL and VITE_GEMINI_KEY are both set. Remove VITE_GEMINI_KEY and give the key to the server as GEMINI_API_KEY instead.')
+  }
+  return {
+    plugins: [react()],
+    // Lets `npm run dev` use the API server from `npm run server` on the same origin
+    server: {
+      proxy: {
+        '/api': 'http://localhost:8787',
+      },
+    },
+  }
 })